@@ -0,0 +1,234 @@
+import { existsSync, writeFileSync } from 'node:fs';
+import { PackingEngine } from '../core/engine/PackingEngine';
+import { LoadPlanValidator } from '../core/math/LoadPlanValidator';
+import { getBenchmarkInstances, type IBenchmarkInstance } from './benchmarkInstances';
+import { readJson } from './io';
+
+/**
+ * Benchmark: packs the reference instances with `PackingEngine` and
+ * compares each run with the stored baseline.
+ *
+ * An instance regresses when it places fewer units, loses more than
+ * UTILIZATION_TOLERANCE points of utilisation, has more plan violations
+ * than its baseline or fails where its baseline did not. Runtime depends
+ * on the machine, so a slowdown is reported but does not fail the run.
+ *
+ * Exit codes:
+ * - 0: no regressions
+ * - 1: at least one instance regressed
+ * - 2: the command line or the baseline file is invalid
+ */
+const EXIT_OK = 0;
+const EXIT_REGRESSED = 1;
+const EXIT_FAILED = 2;
+
+const DEFAULT_BASELINE_PATH = 'benchmarks/baselines.json';
+const UTILIZATION_TOLERANCE = 0.5;
+// Reported as slower beyond this factor of the baseline runtime, and only
+// when the difference is large enough not to be timer noise.
+const SLOWDOWN_FACTOR = 2;
+const SLOWDOWN_MIN_MS = 100;
+
+const USAGE = `Usage: node dist-cli/benchmark.js [options]
+
+Options:
+  --baseline <file>  Baselines to compare with (default ${DEFAULT_BASELINE_PATH})
+  --only <prefix>    Run only instances whose id starts with <prefix>, e.g. BR1- or rolls
+  --update           Store this run's figures as the new baselines
+  --out <file>       Also write this run's figures as JSON to <file>
+  --help             Show this message`;
+
+interface ICliOptions {
+  baselinePath: string;
+  only?: string;
+  update: boolean;
+  outPath?: string;
+}
+
+interface IBenchmarkRecord {
+  placed: number;
+  total: number;
+  utilizationPercent: number;
+  executionTime: number;
+  violations: number;
+  /** Set when the engine threw; the figures are then all zero. */
+  error?: string;
+}
+
+type Status = 'ok' | 'new' | 'improved' | 'slower' | 'failed' | 'REGRESSED';
+
+function parseArgs(args: string[]): ICliOptions | null {
+  const options: ICliOptions = { baselinePath: DEFAULT_BASELINE_PATH, update: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--help' || arg === '-h') return null;
+
+    if (arg === '--update') {
+      options.update = true;
+    } else if (arg === '--baseline' || arg === '--only' || arg === '--out') {
+      const value = args[++i];
+      if (value === undefined) {
+        throw new Error(`${arg} needs a value`);
+      }
+      if (arg === '--baseline') options.baselinePath = value;
+      if (arg === '--only') options.only = value;
+      if (arg === '--out') options.outPath = value;
+    } else {
+      throw new Error(`Unknown argument ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+function readBaselines(path: string): Record<string, IBenchmarkRecord> {
+  if (!existsSync(path)) return {};
+
+  const data = readJson(path);
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error(`${path} must map instance ids to benchmark figures`);
+  }
+  return data as Record<string, IBenchmarkRecord>;
+}
+
+function runInstance(instance: IBenchmarkInstance): IBenchmarkRecord {
+  try {
+    const result = new PackingEngine(instance.config).run(instance.items, instance.container);
+    return {
+      placed: result.placedItems.length,
+      total: result.placedItems.length + result.unplacedItems.length,
+      utilizationPercent: Math.round(result.utilizationPercent * 100) / 100,
+      executionTime: Math.round(result.executionTime),
+      violations: LoadPlanValidator.validate(result, instance.container).length,
+    };
+  } catch (error) {
+    return {
+      placed: 0,
+      total: instance.items.reduce((acc, item) => acc + item.quantity, 0),
+      utilizationPercent: 0,
+      executionTime: 0,
+      violations: 0,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+function getStatus(record: IBenchmarkRecord, baseline: IBenchmarkRecord | undefined): Status {
+  if (record.error) {
+    return baseline && !baseline.error ? 'REGRESSED' : 'failed';
+  }
+  if (!baseline) return 'new';
+  if (baseline.error) return 'improved';
+
+  if (
+    record.placed < baseline.placed ||
+    record.utilizationPercent < baseline.utilizationPercent - UTILIZATION_TOLERANCE ||
+    record.violations > baseline.violations
+  ) {
+    return 'REGRESSED';
+  }
+  if (record.placed > baseline.placed || record.utilizationPercent > baseline.utilizationPercent + UTILIZATION_TOLERANCE) {
+    return 'improved';
+  }
+  if (
+    record.executionTime > baseline.executionTime * SLOWDOWN_FACTOR &&
+    record.executionTime - baseline.executionTime > SLOWDOWN_MIN_MS
+  ) {
+    return 'slower';
+  }
+  return 'ok';
+}
+
+function formatRow(cells: string[]): string {
+  const widths = [14, 10, 8, 8, 9, 11, 10];
+  return cells.map((cell, i) => (i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join(' ');
+}
+
+function formatDelta(value: number, baseline: number | undefined, digits: number): string {
+  if (baseline === undefined) return '';
+  const delta = value - baseline;
+  return `${delta >= 0 ? '+' : ''}${delta.toFixed(digits)}`;
+}
+
+function main(args: string[]): number {
+  let options: ICliOptions | null;
+  try {
+    options = parseArgs(args);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error(USAGE);
+    return EXIT_FAILED;
+  }
+
+  if (!options) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+
+  let baselines: Record<string, IBenchmarkRecord>;
+  try {
+    baselines = readBaselines(options.baselinePath);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    return EXIT_FAILED;
+  }
+
+  const only = options.only;
+  const instances = getBenchmarkInstances().filter((instance) => !only || instance.id.startsWith(only));
+  if (instances.length === 0) {
+    console.error(`No instance id starts with '${only}'`);
+    return EXIT_FAILED;
+  }
+
+  const records: Record<string, IBenchmarkRecord> = {};
+  let regressions = 0;
+
+  console.log(formatRow(['instance', 'placed', 'util %', 'Δ util', 'time ms', 'violations', 'status']));
+
+  // Untimed run so the first instance is not charged for JIT warm-up.
+  runInstance(instances[0]);
+
+  for (const instance of instances) {
+    const record = runInstance(instance);
+    records[instance.id] = record;
+
+    const baseline = baselines[instance.id];
+    const status = getStatus(record, baseline);
+    if (status === 'REGRESSED') regressions++;
+
+    console.log(formatRow([
+      instance.id,
+      `${record.placed}/${record.total}`,
+      record.utilizationPercent.toFixed(1),
+      formatDelta(record.utilizationPercent, baseline?.utilizationPercent, 1),
+      String(record.executionTime),
+      String(record.violations),
+      status,
+    ]));
+    if (record.error) {
+      console.log(`  ${record.error}`);
+    }
+  }
+
+  const utilizations = Object.values(records).map((record) => record.utilizationPercent);
+  const totalTime = Object.values(records).reduce((acc, record) => acc + record.executionTime, 0);
+  console.log(
+    `\n${instances.length} instances: mean utilisation ${(utilizations.reduce((a, b) => a + b, 0) / utilizations.length).toFixed(2)}%, ` +
+    `${totalTime} ms, ${regressions} regressed`
+  );
+
+  if (options.outPath) {
+    writeFileSync(options.outPath, JSON.stringify(records, null, 2) + '\n');
+  }
+  if (options.update) {
+    // Partial runs (--only) keep the baselines of the instances they skipped.
+    writeFileSync(options.baselinePath, JSON.stringify({ ...baselines, ...records }, null, 2) + '\n');
+    console.log(`Baselines written to ${options.baselinePath}`);
+    return EXIT_OK;
+  }
+
+  return regressions > 0 ? EXIT_REGRESSED : EXIT_OK;
+}
+
+process.exitCode = main(process.argv.slice(2));
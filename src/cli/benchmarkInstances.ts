@@ -0,0 +1,181 @@
+import type { ICargoItem, IContainer, ItemAxis } from '../core/types';
+import type { IPackingConfig } from '../core/engine/PackingEngine';
+import { createRandom } from '../core/engine/MetaheuristicOptimizer';
+import { DEFAULT_CONTAINERS, presetToContainer } from '../core/constants/containers';
+
+export interface IBenchmarkInstance {
+  id: string;
+  description: string;
+  container: IContainer;
+  items: ICargoItem[];
+  config?: Partial<IPackingConfig>;
+}
+
+/**
+ * Box types per class of the Bischoff–Ratcliff (BR1–BR7) and
+ * Davies–Bischoff (BR8–BR15) test sets, from weakly to strongly
+ * heterogeneous cargo.
+ */
+const BR_BOX_TYPES = [3, 5, 8, 10, 12, 15, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+
+// The BR container, 587 x 233 x 220 cm, and the bounds box sides are drawn from.
+const BR_CONTAINER = { length: 5.87, width: 2.33, height: 2.2 };
+const BR_MIN_SIDES = [0.3, 0.25, 0.2];
+const BR_MAX_SIDES = [1.2, 1.0, 0.8];
+// Chance that each side of a box type may face up.
+const BR_VERTICAL_AXIS_CHANCE = 0.75;
+
+const BR_SEEDS = [1, 2];
+
+/**
+ * A BR-style instance: box types drawn the way the published generator
+ * draws them, with quantities added one random box at a time until the
+ * cargo would exceed the container volume. Same class and seed, same
+ * instance; these are not the published instance files.
+ */
+export function generateBrInstance(classNumber: number, seed: number): IBenchmarkInstance {
+  const random = createRandom(classNumber * 1000 + seed);
+  const typeCount = BR_BOX_TYPES[classNumber - 1];
+  const randomSide = (axis: number) =>
+    Math.round((BR_MIN_SIDES[axis] + random() * (BR_MAX_SIDES[axis] - BR_MIN_SIDES[axis])) * 100) / 100;
+
+  const items: ICargoItem[] = Array.from({ length: typeCount }, (_, i) => {
+    const axes = (['length', 'width', 'height'] as ItemAxis[]).filter(() => random() < BR_VERTICAL_AXIS_CHANCE);
+    return {
+      id: `br${classNumber}-${seed}-${i + 1}`,
+      type: 'box',
+      name: `Box type ${i + 1}`,
+      quantity: 0,
+      dimensions: { length: randomSide(0), width: randomSide(1), height: randomSide(2) },
+      orientationRule: 'explicit',
+      allowedVerticalAxes: axes.length > 0 ? axes : ['height'],
+    };
+  });
+
+  const capacity = BR_CONTAINER.length * BR_CONTAINER.width * BR_CONTAINER.height;
+  let volume = 0;
+  for (;;) {
+    const item = items[Math.floor(random() * items.length)];
+    const dims = item.dimensions!;
+    const boxVolume = dims.length * dims.width * dims.height;
+    if (volume + boxVolume > capacity) break;
+    volume += boxVolume;
+    item.quantity++;
+  }
+
+  return {
+    id: `BR${classNumber}-${seed}`,
+    description: `${typeCount} box types, ${(volume / capacity * 100).toFixed(0)}% of the container volume`,
+    container: { id: 'br', name: 'BR container', dimensions: { ...BR_CONTAINER }, maxWeight: 0 },
+    items: items.filter((item) => item.quantity > 0),
+  };
+}
+
+/**
+ * Shipments like the ones loaded with this app: rolls, pallets and a mix
+ * of everything, in the default containers.
+ */
+function getScenarioInstances(): IBenchmarkInstance[] {
+  const container40 = presetToContainer(DEFAULT_CONTAINERS['40DC']);
+  const container40hc = presetToContainer(DEFAULT_CONTAINERS['40HC']);
+  const truck = presetToContainer(DEFAULT_CONTAINERS.TRUCK);
+
+  const eurPallet: ICargoItem = {
+    id: 'eur',
+    type: 'pallet',
+    name: 'EUR pallet',
+    quantity: 30,
+    weight: 600,
+    dimensions: { length: 1.2, width: 0.8, height: 1.5 },
+  };
+  const usPallet: ICargoItem = {
+    id: 'us',
+    type: 'pallet',
+    name: 'US pallet',
+    quantity: 12,
+    weight: 700,
+    dimensions: { length: 1.22, width: 1.02, height: 1.4 },
+  };
+  const paperRoll: ICargoItem = {
+    id: 'paper',
+    type: 'roll',
+    name: 'Paper roll',
+    quantity: 40,
+    weight: 450,
+    rollDimensions: { diameter: 1.0, length: 1.2 },
+  };
+  const filmRoll: ICargoItem = {
+    id: 'film',
+    type: 'roll',
+    name: 'Film roll',
+    quantity: 60,
+    weight: 120,
+    rollDimensions: { diameter: 0.5, length: 1.5 },
+    orientationRule: 'flat',
+  };
+  const carton: ICargoItem = {
+    id: 'carton',
+    type: 'box',
+    name: 'Carton',
+    quantity: 200,
+    weight: 15,
+    dimensions: { length: 0.6, width: 0.4, height: 0.4 },
+  };
+  const crate: ICargoItem = {
+    id: 'crate',
+    type: 'box',
+    name: 'Crate',
+    quantity: 10,
+    weight: 250,
+    dimensions: { length: 1.5, width: 1.1, height: 1.0 },
+    fragile: true,
+  };
+
+  return [
+    {
+      id: 'pallets-eur',
+      description: 'EUR pallets in a 40ft container',
+      container: container40,
+      items: [eurPallet],
+    },
+    {
+      id: 'pallets-mixed',
+      description: 'EUR and US pallets in a truck',
+      container: truck,
+      items: [{ ...eurPallet, quantity: 14 }, usPallet],
+    },
+    {
+      id: 'rolls-paper',
+      description: 'Paper rolls of one size in a 40ft container',
+      container: container40,
+      items: [paperRoll],
+    },
+    {
+      id: 'rolls-mixed',
+      description: 'Paper rolls and lying film rolls in a 40ft High Cube',
+      container: container40hc,
+      items: [{ ...paperRoll, quantity: 24 }, filmRoll],
+    },
+    {
+      id: 'rolls-diameters',
+      description: 'Paper rolls of three diameters in a 40ft container',
+      container: container40,
+      items: [
+        { ...paperRoll, id: 'paper-100', quantity: 10 },
+        { ...paperRoll, id: 'paper-80', name: 'Paper roll 80', quantity: 12, weight: 290, rollDimensions: { diameter: 0.8, length: 1.2 } },
+        { ...paperRoll, id: 'paper-60', name: 'Paper roll 60', quantity: 20, weight: 160, rollDimensions: { diameter: 0.6, length: 1.2 } },
+      ],
+    },
+    {
+      id: 'mixed',
+      description: 'Pallets, rolls, crates and cartons in a 40ft High Cube',
+      container: container40hc,
+      items: [{ ...eurPallet, quantity: 8 }, { ...paperRoll, quantity: 10 }, crate, carton],
+    },
+  ];
+}
+
+export function getBenchmarkInstances(): IBenchmarkInstance[] {
+  const brInstances = BR_BOX_TYPES.flatMap((_, i) => BR_SEEDS.map((seed) => generateBrInstance(i + 1, seed)));
+  return [...brInstances, ...getScenarioInstances()];
+}
@@ -0,0 +1,112 @@
+import { writeFileSync } from 'node:fs';
+import { PackingEngine, type IPackingConfig } from '../core/engine/PackingEngine';
+import { parseShipment, toPlacementsCsv } from './shipment';
+import { readJson } from './io';
+
+/**
+ * Command-line packer: packs a shipment file with `PackingEngine` and
+ * writes the `ILoadingResult` as JSON.
+ *
+ * Exit codes:
+ * - 0: every unit was placed
+ * - 1: some units could not be placed (listed in `unplacedItems`)
+ * - 2: the command line, the input files or the run itself failed
+ */
+const EXIT_ALL_PLACED = 0;
+const EXIT_UNPLACED = 1;
+const EXIT_FAILED = 2;
+
+const USAGE = `Usage: node dist-cli/pack.js <shipment.json> [options]
+
+Options:
+  --config <file>  Packing config (IPackingConfig) to apply over the shipment's "config"
+  --out <file>     Write the result JSON to <file> instead of stdout
+  --csv <file>     Also write one CSV row per placed unit to <file>
+  --help           Show this message`;
+
+interface ICliOptions {
+  shipmentPath: string;
+  configPath?: string;
+  outPath?: string;
+  csvPath?: string;
+}
+
+function parseArgs(args: string[]): ICliOptions | null {
+  const options: Partial<ICliOptions> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--help' || arg === '-h') return null;
+
+    if (arg === '--config' || arg === '--out' || arg === '--csv') {
+      const value = args[++i];
+      if (value === undefined) {
+        throw new Error(`${arg} needs a file name`);
+      }
+      if (arg === '--config') options.configPath = value;
+      if (arg === '--out') options.outPath = value;
+      if (arg === '--csv') options.csvPath = value;
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option ${arg}`);
+    } else if (options.shipmentPath === undefined) {
+      options.shipmentPath = arg;
+    } else {
+      throw new Error(`Unexpected argument ${arg}`);
+    }
+  }
+
+  if (options.shipmentPath === undefined) {
+    throw new Error('Missing shipment file');
+  }
+  return options as ICliOptions;
+}
+
+function main(args: string[]): number {
+  let options: ICliOptions | null;
+  try {
+    options = parseArgs(args);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error(USAGE);
+    return EXIT_FAILED;
+  }
+
+  if (!options) {
+    console.log(USAGE);
+    return EXIT_ALL_PLACED;
+  }
+
+  try {
+    const shipment = parseShipment(readJson(options.shipmentPath));
+    const config: Partial<IPackingConfig> = {
+      ...shipment.config,
+      ...(options.configPath ? (readJson(options.configPath) as Partial<IPackingConfig>) : {}),
+    };
+
+    const result = new PackingEngine(config).run(shipment.items, shipment.container);
+
+    const json = JSON.stringify(result, null, 2) + '\n';
+    if (options.outPath) {
+      writeFileSync(options.outPath, json);
+    } else {
+      process.stdout.write(json);
+    }
+    if (options.csvPath) {
+      writeFileSync(options.csvPath, toPlacementsCsv(result));
+    }
+
+    const total = result.placedItems.length + result.unplacedItems.length;
+    console.error(
+      `Placed ${result.placedItems.length}/${total} units in ${shipment.container.name}: ` +
+      `${result.utilizationPercent.toFixed(1)}% of volume, ${result.totalWeight.toFixed(0)} kg, ` +
+      `${result.executionTime.toFixed(0)} ms`
+    );
+
+    return result.unplacedItems.length === 0 ? EXIT_ALL_PLACED : EXIT_UNPLACED;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    return EXIT_FAILED;
+  }
+}
+
+process.exitCode = main(process.argv.slice(2));
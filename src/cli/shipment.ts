@@ -0,0 +1,203 @@
+import type { CargoType, ICargoItem, IContainer, IDimensions, ILoadingResult, IObstacle, IPlacedItem, IVector3 } from '../core/types';
+import type { IPackingConfig } from '../core/engine/PackingEngine';
+import { DEFAULT_CONTAINERS, presetToContainer } from '../core/constants/containers';
+import {
+  validateDeliveryStop,
+  validateDimensions,
+  validateQuantity,
+  validateRollDimensions,
+  validateStackingLimits,
+  type ValidationResult,
+} from '../utils/validationUtils';
+
+/**
+ * A shipment file for the command-line packer. `container` is either a
+ * full container in metres or the key of a default preset ('20DC', '40DC',
+ * '40HC', 'TRUCK').
+ */
+export interface IShipment {
+  container: IContainer;
+  items: ICargoItem[];
+  config?: Partial<IPackingConfig>;
+}
+
+const CARGO_TYPES: CargoType[] = ['box', 'roll', 'pallet'];
+
+export function parseShipment(data: unknown): IShipment {
+  if (!isObject(data)) {
+    throw new Error('Shipment must be a JSON object');
+  }
+
+  const container = parseContainer(data.container);
+
+  if (!Array.isArray(data.items) || data.items.length === 0) {
+    throw new Error('Shipment must list at least one item in "items"');
+  }
+  const items = data.items.map((item, index) => parseItem(item, index));
+
+  if (data.config !== undefined && !isObject(data.config)) {
+    throw new Error('"config" must be an object');
+  }
+
+  return { container, items, config: data.config as Partial<IPackingConfig> | undefined };
+}
+
+/**
+ * Placements of a load plan, e.g. the JSON written by the packer or a plan
+ * made elsewhere. Only what the validator needs is checked.
+ */
+export function parsePlacedItems(data: unknown): IPlacedItem[] {
+  if (!isObject(data) || !Array.isArray(data.placedItems)) {
+    throw new Error('Load plan must be an object with a "placedItems" array');
+  }
+
+  return data.placedItems.map((value, index) => {
+    const label = `placedItems[${index}]`;
+    if (!isObject(value) || typeof value.itemId !== 'string' || !isObject(value.item)) {
+      throw new Error(`${label} needs an "itemId" and an "item"`);
+    }
+    if (!CARGO_TYPES.includes(value.item.type as CargoType)) {
+      throw new Error(`${label} has unknown item type '${String(value.item.type)}'`);
+    }
+    if (!isVector(value.position)) {
+      throw new Error(`${label} needs a numeric "position" { x, y, z }`);
+    }
+    if (!isDimensions(value.dimensions)) {
+      throw new Error(`${label} needs numeric "dimensions" { length, width, height }`);
+    }
+
+    return value as unknown as IPlacedItem;
+  });
+}
+
+/**
+ * One row per placed unit. Positions are the corner nearest the front
+ * wall, floor and left side wall, all in metres.
+ */
+export function toPlacementsCsv(result: ILoadingResult): string {
+  const header = ['itemId', 'name', 'type', 'x', 'y', 'z', 'length', 'width', 'height', 'rotation', 'orientation', 'weight', 'deliveryStop'];
+  const rows = result.placedItems.map((placed) => [
+    placed.itemId,
+    placed.item.name,
+    placed.item.type,
+    placed.position.x.toFixed(3),
+    placed.position.y.toFixed(3),
+    placed.position.z.toFixed(3),
+    placed.dimensions.length.toFixed(3),
+    placed.dimensions.width.toFixed(3),
+    placed.dimensions.height.toFixed(3),
+    String(placed.rotation),
+    placed.orientation ?? '',
+    placed.item.weight !== undefined ? String(placed.item.weight) : '',
+    placed.item.deliveryStop !== undefined ? String(placed.item.deliveryStop) : '',
+  ]);
+
+  return [header, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\n') + '\n';
+}
+
+export function parseContainer(value: unknown): IContainer {
+  if (typeof value === 'string') {
+    const preset = DEFAULT_CONTAINERS[value];
+    if (!preset) {
+      throw new Error(`Unknown container preset '${value}' (expected one of ${Object.keys(DEFAULT_CONTAINERS).join(', ')})`);
+    }
+    return presetToContainer(preset);
+  }
+
+  if (!isObject(value) || !isObject(value.dimensions)) {
+    throw new Error('"container" must be a preset key or an object with "dimensions"');
+  }
+
+  const { length, width, height } = value.dimensions;
+  assertValid(validateDimensions(Number(length), Number(width), Number(height)), 'container');
+
+  return {
+    id: typeof value.id === 'string' ? value.id : 'container',
+    name: typeof value.name === 'string' ? value.name : 'Container',
+    dimensions: { length: Number(length), width: Number(width), height: Number(height) },
+    maxWeight: typeof value.maxWeight === 'number' ? value.maxWeight : 0,
+    obstacles: value.obstacles === undefined ? undefined : parseObstacles(value.obstacles),
+  };
+}
+
+function parseObstacles(value: unknown): IObstacle[] {
+  if (!Array.isArray(value)) {
+    throw new Error('container "obstacles" must be an array');
+  }
+
+  return value.map((obstacle, index) => {
+    const label = `container obstacles[${index}]`;
+    if (!isObject(obstacle) || !isVector(obstacle.position) || !isDimensions(obstacle.dimensions)) {
+      throw new Error(`${label} needs a numeric "position" { x, y, z } and "dimensions" { length, width, height }`);
+    }
+
+    const { length, width, height } = obstacle.dimensions;
+    assertValid(validateDimensions(length, width, height), label);
+
+    const id = typeof obstacle.id === 'string' ? obstacle.id : `obstacle-${index + 1}`;
+    return {
+      id,
+      name: typeof obstacle.name === 'string' ? obstacle.name : id,
+      position: { x: obstacle.position.x, y: obstacle.position.y, z: obstacle.position.z },
+      dimensions: { length, width, height },
+    };
+  });
+}
+
+function parseItem(value: unknown, index: number): ICargoItem {
+  const label = `items[${index}]`;
+  if (!isObject(value)) {
+    throw new Error(`${label} must be an object`);
+  }
+
+  const item = value as unknown as ICargoItem;
+  if (typeof item.id !== 'string' || item.id === '') {
+    throw new Error(`${label} needs a string "id"`);
+  }
+  if (!CARGO_TYPES.includes(item.type)) {
+    throw new Error(`${label} has unknown type '${String(item.type)}' (expected ${CARGO_TYPES.join(', ')})`);
+  }
+
+  assertValid(validateQuantity(item.quantity), label);
+
+  if (item.type === 'roll') {
+    if (!item.rollDimensions) {
+      throw new Error(`${label} is a roll and needs "rollDimensions"`);
+    }
+    assertValid(validateRollDimensions(item.rollDimensions.diameter, item.rollDimensions.length), label);
+  } else {
+    if (!item.dimensions) {
+      throw new Error(`${label} needs "dimensions"`);
+    }
+    assertValid(validateDimensions(item.dimensions.length, item.dimensions.width, item.dimensions.height), label);
+  }
+
+  assertValid(validateStackingLimits(item.maxLoadOnTop, item.maxStackTiers), label);
+  if (item.deliveryStop !== undefined) {
+    assertValid(validateDeliveryStop(item.deliveryStop), label);
+  }
+
+  return { ...item, name: typeof item.name === 'string' ? item.name : item.id };
+}
+
+function assertValid(result: ValidationResult, label: string): void {
+  if (!result.isValid) {
+    throw new Error(`${label}: ${result.error}`);
+  }
+}
+
+function isVector(value: unknown): value is IVector3 {
+  return isObject(value) && [value.x, value.y, value.z].every((n) => typeof n === 'number');
+}
+
+function isDimensions(value: unknown): value is IDimensions {
+  return isObject(value) && [value.length, value.width, value.height].every((n) => typeof n === 'number');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,68 @@
+import { LoadPlanValidator } from '../core/math/LoadPlanValidator';
+import { parseContainer, parsePlacedItems } from './shipment';
+import { readJson } from './io';
+
+/**
+ * Command-line load plan check: runs `LoadPlanValidator` on a plan, such as
+ * the result JSON written by the packer or a plan made elsewhere, and
+ * prints the violations as JSON.
+ *
+ * Exit codes:
+ * - 0: the plan is valid
+ * - 1: the plan has violations
+ * - 2: the command line or the input files are invalid
+ */
+const EXIT_VALID = 0;
+const EXIT_VIOLATIONS = 1;
+const EXIT_FAILED = 2;
+
+const USAGE = `Usage: node dist-cli/validate.js <plan.json> [--container <preset|file>]
+
+The plan holds "placedItems" and, unless --container is given, a "container"
+(a preset key such as "40HC" or a container object in metres).`;
+
+function main(args: string[]): number {
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(USAGE);
+    return EXIT_VALID;
+  }
+
+  const containerIndex = args.indexOf('--container');
+  const containerArg = containerIndex !== -1 ? args[containerIndex + 1] : undefined;
+  const positional = containerIndex === -1
+    ? args
+    : args.filter((_, i) => i !== containerIndex && i !== containerIndex + 1);
+
+  if ((containerIndex !== -1 && containerArg === undefined) || positional.length !== 1 || positional[0].startsWith('--')) {
+    console.error(USAGE);
+    return EXIT_FAILED;
+  }
+
+  try {
+    const plan = readJson(positional[0]);
+    const containerSource = containerArg === undefined
+      ? (plan as { container?: unknown }).container
+      : containerArg.endsWith('.json') ? readJson(containerArg) : containerArg;
+    if (containerSource === undefined) {
+      throw new Error('No container: add "container" to the plan or pass --container');
+    }
+
+    const container = parseContainer(containerSource);
+    const placedItems = parsePlacedItems(plan);
+    const violations = LoadPlanValidator.validate({ placedItems }, container);
+
+    process.stdout.write(JSON.stringify(violations, null, 2) + '\n');
+    console.error(
+      violations.length === 0
+        ? `Plan with ${placedItems.length} items is valid for ${container.name}`
+        : `Plan with ${placedItems.length} items has ${violations.length} violation(s) for ${container.name}`
+    );
+
+    return violations.length === 0 ? EXIT_VALID : EXIT_VIOLATIONS;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    return EXIT_FAILED;
+  }
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,40 @@
+import type { WeightDistribution } from '../types/reporting';
+
+const DISTRIBUTION_LABELS: Record<WeightDistribution['containerDistribution'][number]['distribution'], string> = {
+  balanced: 'Balanced',
+  'front-heavy': 'Front-heavy',
+  'rear-heavy': 'Door-heavy',
+  'left-heavy': 'Left-heavy',
+  'right-heavy': 'Right-heavy',
+};
+
+interface BalanceSummaryProps {
+  distribution: WeightDistribution;
+}
+
+export function BalanceSummary({ distribution }: BalanceSummaryProps) {
+  const { centerOfGravity, isBalanced, balanceScore, warnings } = distribution;
+  const classification = distribution.containerDistribution[0]?.distribution ?? 'balanced';
+
+  return (
+    <div className="pt-2 mt-2 border-t border-slate-600 space-y-1.5">
+      <div className="flex justify-between">
+        <span className="text-slate-400">Balance:</span>
+        <span className={isBalanced ? 'text-green-400' : 'text-amber-400'}>
+          {DISTRIBUTION_LABELS[classification]} ({Math.round(balanceScore)}/100)
+        </span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-slate-400">Centre of gravity:</span>
+        <span>
+          {centerOfGravity.x.toFixed(2)} / {centerOfGravity.z.toFixed(2)} / {centerOfGravity.y.toFixed(2)} m
+        </span>
+      </div>
+      {warnings.map((warning) => (
+        <div key={warning} className="text-xs text-amber-400">
+          {warning}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import type { IPackingProgress, PackingPhase } from '../core/types';
+
+const PHASE_LABELS: Record<PackingPhase, string> = {
+  placing: 'Placing items',
+  patterns: 'Laying out patterns',
+  optimizing: 'Searching for a better order',
+  finishing: 'Finishing',
+};
+
+interface CalculationProgressProps {
+  progress: IPackingProgress | null;
+  onCancel: () => void;
+}
+
+export function CalculationProgress({ progress, onCancel }: CalculationProgressProps) {
+  const percent = progress && progress.total > 0
+    ? Math.min(100, Math.round((progress.processed / progress.total) * 100))
+    : 0;
+
+  return (
+    <div className="mt-3 space-y-1.5 text-sm">
+      <div className="flex justify-between text-slate-400">
+        <span>{progress ? PHASE_LABELS[progress.phase] : 'Starting...'}</span>
+        {progress && progress.phase !== 'optimizing' && (
+          <span>
+            {progress.placed} placed / {progress.total}
+          </span>
+        )}
+        {progress && progress.phase === 'optimizing' && (
+          <span>
+            {progress.processed} / {progress.total} tried
+          </span>
+        )}
+      </div>
+      <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-blue-500 transition-[width] duration-200"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <button
+        onClick={onCancel}
+        className="w-full text-slate-300 hover:text-white bg-slate-700 hover:bg-slate-600 rounded-lg p-2 transition-colors"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+}
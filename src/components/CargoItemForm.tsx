@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { Package, Cylinder, Plus, X } from 'lucide-react';
-import type { CargoType, ICargoItem } from '../core/types';
+import type { CargoType, ICargoItem, ItemAxis, OrientationRule } from '../core/types';
 import { getRandomColor, CARGO_COLOR_PALETTE } from '../utils/colorUtils';
 import {
   validateName,
@@ -9,8 +9,23 @@ import {
   validateDimensions,
   validateRollDimensions,
   validatePalletDimensions,
+  validateStackingLimits,
+  validateDeliveryStop,
 } from '../utils/validationUtils';
 
+const ORIENTATION_OPTIONS: Array<{ value: OrientationRule; label: string; boxOnly?: boolean }> = [
+  { value: 'any', label: 'Any orientation' },
+  { value: 'upright', label: 'Upright only (this side up)' },
+  { value: 'flat', label: 'Keep long side horizontal' },
+  { value: 'explicit', label: 'Choose sides that may face up', boxOnly: true },
+];
+
+const AXIS_LABELS: Record<ItemAxis, string> = {
+  length: 'Length',
+  width: 'Width',
+  height: 'Height',
+};
+
 interface CargoItemFormProps {
   onAdd: (item: ICargoItem) => void;
   onCancel?: () => void;
@@ -22,6 +37,7 @@ export function CargoItemForm({ onAdd, onCancel, existingItems }: CargoItemFormP
   const [name, setName] = useState('');
   const [weight, setWeight] = useState('');
   const [quantity, setQuantity] = useState('1');
+  const [deliveryStop, setDeliveryStop] = useState('');
 
   const [length, setLength] = useState('120');
   const [width, setWidth] = useState('80');
@@ -32,6 +48,13 @@ export function CargoItemForm({ onAdd, onCancel, existingItems }: CargoItemFormP
 
   const [color, setColor] = useState('');
   const [isPalletized, setIsPalletized] = useState(false);
+  const [isDoubleStackable, setIsDoubleStackable] = useState(false);
+  const [isFragile, setIsFragile] = useState(false);
+  const [isStackable, setIsStackable] = useState(true);
+  const [maxLoadOnTop, setMaxLoadOnTop] = useState('');
+  const [maxStackTiers, setMaxStackTiers] = useState('');
+  const [orientationRule, setOrientationRule] = useState<OrientationRule>('any');
+  const [allowedVerticalAxes, setAllowedVerticalAxes] = useState<ItemAxis[]>(['height']);
 
   const [palletLength, setPalletLength] = useState('120');
   const [palletWidth, setPalletWidth] = useState('80');
@@ -62,9 +85,18 @@ export function CargoItemForm({ onAdd, onCancel, existingItems }: CargoItemFormP
 
   const handleTypeChange = (type: CargoType) => {
     setItemType(type);
+    if (type !== 'box' && orientationRule === 'explicit') {
+      setOrientationRule('any');
+    }
     setErrors([]);
   };
 
+  const toggleVerticalAxis = (axis: ItemAxis, allowed: boolean) => {
+    setAllowedVerticalAxes((axes) =>
+      allowed ? [...axes.filter((a) => a !== axis), axis] : axes.filter((a) => a !== axis)
+    );
+  };
+
   const validateForm = (): boolean => {
     const newErrors: string[] = [];
 
@@ -130,6 +162,27 @@ export function CargoItemForm({ onAdd, onCancel, existingItems }: CargoItemFormP
       }
     }
 
+    if (isStackable) {
+      const stackingValidation = validateStackingLimits(
+        maxLoadOnTop ? parseFloat(maxLoadOnTop) : undefined,
+        maxStackTiers ? Number(maxStackTiers) : undefined
+      );
+      if (!stackingValidation.isValid) {
+        newErrors.push(stackingValidation.error!);
+      }
+    }
+
+    if (deliveryStop) {
+      const stopValidation = validateDeliveryStop(Number(deliveryStop));
+      if (!stopValidation.isValid) {
+        newErrors.push(stopValidation.error!);
+      }
+    }
+
+    if (orientationRule === 'explicit' && allowedVerticalAxes.length === 0) {
+      newErrors.push('Select at least one side that may face up');
+    }
+
     setErrors(newErrors);
     return newErrors.length === 0;
   };
@@ -151,6 +204,8 @@ export function CargoItemForm({ onAdd, onCancel, existingItems }: CargoItemFormP
       name: finalName,
       quantity: parseInt(quantity),
       isPalletized,
+      fragile: isFragile,
+      stackable: isStackable,
       color: selectedColor,
     };
 
@@ -158,6 +213,30 @@ export function CargoItemForm({ onAdd, onCancel, existingItems }: CargoItemFormP
       newItem.weight = parseFloat(weight);
     }
 
+    if (isDoubleStackable && (isPalletized || itemType === 'pallet')) {
+      newItem.doubleStackable = true;
+    }
+
+    if (deliveryStop) {
+      newItem.deliveryStop = Number(deliveryStop);
+    }
+
+    if (orientationRule !== 'any') {
+      newItem.orientationRule = orientationRule;
+    }
+
+    if (orientationRule === 'explicit') {
+      newItem.allowedVerticalAxes = allowedVerticalAxes;
+    }
+
+    if (isStackable && maxLoadOnTop) {
+      newItem.maxLoadOnTop = parseFloat(maxLoadOnTop);
+    }
+
+    if (isStackable && maxStackTiers) {
+      newItem.maxStackTiers = Number(maxStackTiers);
+    }
+
     if (itemType === 'box') {
       newItem.dimensions = {
         length: parseFloat(length) / 100,
@@ -187,6 +266,7 @@ export function CargoItemForm({ onAdd, onCancel, existingItems }: CargoItemFormP
     setName('');
     setWeight('');
     setQuantity('1');
+    setDeliveryStop('');
     setLength('120');
     setWidth('80');
     setHeight('100');
@@ -194,6 +274,13 @@ export function CargoItemForm({ onAdd, onCancel, existingItems }: CargoItemFormP
     setRollLength('200');
     setColor('');
     setIsPalletized(false);
+    setIsDoubleStackable(false);
+    setIsFragile(false);
+    setIsStackable(true);
+    setMaxLoadOnTop('');
+    setMaxStackTiers('');
+    setOrientationRule('any');
+    setAllowedVerticalAxes(['height']);
     setPalletLength('120');
     setPalletWidth('80');
     setPalletHeight('15');
@@ -351,6 +438,21 @@ export function CargoItemForm({ onAdd, onCancel, existingItems }: CargoItemFormP
           </div>
         </div>
 
+        <div>
+          <label className="block text-sm font-medium mb-2">
+            Delivery stop <span className="text-slate-400 font-normal">(optional, 1 = unloaded first)</span>
+          </label>
+          <input
+            type="number"
+            step="1"
+            min="1"
+            value={deliveryStop}
+            onChange={(e) => setDeliveryStop(e.target.value)}
+            placeholder="Single drop"
+            className="w-full bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 focus:outline-none focus:border-blue-500"
+          />
+        </div>
+
         <div>
           <label className="block text-sm font-medium mb-2">
             Color {!color && <span className="text-slate-400">(random if not selected)</span>}
@@ -387,10 +489,100 @@ export function CargoItemForm({ onAdd, onCancel, existingItems }: CargoItemFormP
               onChange={(e) => setIsPalletized(e.target.checked)}
               className="w-4 h-4 rounded bg-slate-800 border-slate-600 text-blue-500 focus:ring-blue-500"
             />
-            <span className="text-sm">Palletized (can only be placed on ground)</span>
+            <span className="text-sm">Palletized (stands on the floor unless double-stacked)</span>
+          </label>
+          {(isPalletized || itemType === 'pallet') && (
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={isDoubleStackable}
+                onChange={(e) => setIsDoubleStackable(e.target.checked)}
+                className="w-4 h-4 rounded bg-slate-800 border-slate-600 text-blue-500 focus:ring-blue-500"
+              />
+              <span className="text-sm">Double-stackable (may stand on other double-stackable pallets)</span>
+            </label>
+          )}
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={isFragile}
+              onChange={(e) => setIsFragile(e.target.checked)}
+              className="w-4 h-4 rounded bg-slate-800 border-slate-600 text-blue-500 focus:ring-blue-500"
+            />
+            <span className="text-sm">Fragile (nothing may be stacked on top)</span>
           </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={isStackable}
+              onChange={(e) => setIsStackable(e.target.checked)}
+              className="w-4 h-4 rounded bg-slate-800 border-slate-600 text-blue-500 focus:ring-blue-500"
+            />
+            <span className="text-sm">Stackable (other cargo may rest on it)</span>
+          </label>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-2">Orientation</label>
+          <select
+            value={orientationRule}
+            onChange={(e) => setOrientationRule(e.target.value as OrientationRule)}
+            className="w-full bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+          >
+            {ORIENTATION_OPTIONS.filter((option) => !option.boxOnly || itemType === 'box').map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          {orientationRule === 'explicit' && (
+            <div className="flex gap-4 mt-2">
+              {(Object.keys(AXIS_LABELS) as ItemAxis[]).map((axis) => (
+                <label key={axis} className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={allowedVerticalAxes.includes(axis)}
+                    onChange={(e) => toggleVerticalAxis(axis, e.target.checked)}
+                    className="w-4 h-4 rounded bg-slate-800 border-slate-600 text-blue-500 focus:ring-blue-500"
+                  />
+                  <span className="text-sm">{AXIS_LABELS[axis]} up</span>
+                </label>
+              ))}
+            </div>
+          )}
         </div>
 
+        {isStackable && !isFragile && (
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Max load on top (kg) <span className="text-slate-400 font-normal">(optional)</span>
+              </label>
+              <input
+                type="number"
+                step="0.1"
+                value={maxLoadOnTop}
+                onChange={(e) => setMaxLoadOnTop(e.target.value)}
+                placeholder="No limit"
+                className="w-full bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Max stack tiers <span className="text-slate-400 font-normal">(optional)</span>
+              </label>
+              <input
+                type="number"
+                step="1"
+                value={maxStackTiers}
+                onChange={(e) => setMaxStackTiers(e.target.value)}
+                placeholder="No limit"
+                className="w-full bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+              />
+            </div>
+          </div>
+        )}
+
         {isPalletized && (
           <div className="bg-slate-800/50 rounded-lg p-3 border border-slate-600">
             <label className="block text-sm font-medium mb-2">
@@ -1,15 +1,26 @@
 import { useState, useEffect } from 'react';
-import { Edit3, RotateCcw, Check, X } from 'lucide-react';
+import { Edit3, RotateCcw, Check, X, Plus, Trash2 } from 'lucide-react';
 import { useLoadingStore } from '../store/useLoadingStore';
-import { convertMToCm } from '../core/constants/containers';
+import { convertMToCm, obstacleMToCm } from '../core/constants/containers';
+import type { IObstacle } from '../core/types';
+
+const OBSTACLE_POSITION_FIELDS = [['x', 'X'], ['z', 'Z'], ['y', 'Y']] as const;
+const OBSTACLE_DIMENSION_FIELDS = [['length', 'L'], ['width', 'W'], ['height', 'H']] as const;
 
 export function ContainerEditor() {
-  const { container, updateContainerDimensions, selectedPresetId, selectContainerPreset } = useLoadingStore();
+  const {
+    container,
+    updateContainerDimensions,
+    updateContainerObstacles,
+    selectedPresetId,
+    selectContainerPreset,
+  } = useLoadingStore();
   const [isEditing, setIsEditing] = useState(false);
   const [length, setLength] = useState(convertMToCm(container.dimensions.length));
   const [width, setWidth] = useState(convertMToCm(container.dimensions.width));
   const [height, setHeight] = useState(convertMToCm(container.dimensions.height));
   const [maxWeight, setMaxWeight] = useState(container.maxWeight);
+  const [obstacles, setObstacles] = useState<IObstacle[]>((container.obstacles ?? []).map(obstacleMToCm));
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   useEffect(() => {
@@ -17,6 +28,7 @@ export function ContainerEditor() {
     setWidth(convertMToCm(container.dimensions.width));
     setHeight(convertMToCm(container.dimensions.height));
     setMaxWeight(container.maxWeight);
+    setObstacles((container.obstacles ?? []).map(obstacleMToCm));
     setErrors({});
   }, [container]);
 
@@ -28,6 +40,18 @@ export function ContainerEditor() {
     if (height <= 0) newErrors.height = 'Height must be greater than 0';
     if (maxWeight < 0) newErrors.maxWeight = 'Max weight cannot be negative';
 
+    obstacles.forEach((obstacle, i) => {
+      const { position: p, dimensions: d } = obstacle;
+      if (d.length <= 0 || d.width <= 0 || d.height <= 0) {
+        newErrors[`obstacle-${i}`] = 'Obstacle sizes must be greater than 0';
+      } else if (
+        p.x < 0 || p.y < 0 || p.z < 0 ||
+        p.x + d.length > length || p.y + d.height > height || p.z + d.width > width
+      ) {
+        newErrors[`obstacle-${i}`] = 'Obstacle must lie inside the container';
+      }
+    });
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -35,6 +59,7 @@ export function ContainerEditor() {
   const handleSave = () => {
     if (validate()) {
       updateContainerDimensions(length, width, height, maxWeight);
+      updateContainerObstacles(obstacles);
       setIsEditing(false);
     }
   };
@@ -44,6 +69,7 @@ export function ContainerEditor() {
     setWidth(convertMToCm(container.dimensions.width));
     setHeight(convertMToCm(container.dimensions.height));
     setMaxWeight(container.maxWeight);
+    setObstacles((container.obstacles ?? []).map(obstacleMToCm));
     setErrors({});
     setIsEditing(false);
   };
@@ -55,10 +81,43 @@ export function ContainerEditor() {
     }
   };
 
+  const addObstacle = () => {
+    setObstacles([
+      ...obstacles,
+      {
+        id: `obstacle-${Date.now()}`,
+        name: `Obstacle ${obstacles.length + 1}`,
+        position: { x: 0, y: 0, z: 0 },
+        dimensions: { length: 50, width: 50, height: 50 },
+      },
+    ]);
+  };
+
+  const updateObstacle = (index: number, obstacle: IObstacle) => {
+    setObstacles(obstacles.map((existing, i) => (i === index ? obstacle : existing)));
+  };
+
+  const renderObstacleInput = (key: string, label: string, value: number, min: string, onChange: (value: number) => void) => (
+    <label key={key} className="flex items-center gap-1 text-xs text-slate-400">
+      {label}
+      <input
+        type="number"
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full px-2 py-1 bg-slate-600 border border-slate-500 text-white text-sm rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+        min={min}
+        step="1"
+      />
+    </label>
+  );
+
   if (!isEditing) {
     return (
       <div className="flex items-center justify-between border-t border-slate-600 pt-3">
-        <span className="text-sm text-slate-400">Custom Dimensions</span>
+        <span className="text-sm text-slate-400">
+          Custom Dimensions
+          {obstacles.length > 0 && ` · ${obstacles.length} obstacle${obstacles.length === 1 ? '' : 's'}`}
+        </span>
         <button
           onClick={() => setIsEditing(true)}
           className="flex items-center gap-1 px-3 py-1.5 text-sm text-blue-400 hover:bg-slate-600 rounded-md transition-colors"
@@ -170,6 +229,53 @@ export function ContainerEditor() {
           {errors.maxWeight && <p className="text-xs text-red-400 mt-1">{errors.maxWeight}</p>}
         </div>
       </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-medium text-slate-300">Obstacles and no-load zones (cm)</span>
+          <button
+            onClick={addObstacle}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-blue-400 hover:bg-slate-600 rounded transition-colors"
+            title="Add obstacle"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            Add
+          </button>
+        </div>
+
+        {obstacles.map((obstacle, i) => (
+          <div key={obstacle.id} className="bg-slate-700 rounded-lg p-2 space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={obstacle.name}
+                onChange={(e) => updateObstacle(i, { ...obstacle, name: e.target.value })}
+                className="flex-1 px-2 py-1 bg-slate-600 border border-slate-500 text-white text-sm rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={() => setObstacles(obstacles.filter((_, j) => j !== i))}
+                className="p-1 text-slate-400 hover:text-red-400 hover:bg-slate-600 rounded transition-colors"
+                title="Remove obstacle"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              {OBSTACLE_POSITION_FIELDS.map(([axis, label]) =>
+                renderObstacleInput(axis, label, obstacle.position[axis], '0', (value) =>
+                  updateObstacle(i, { ...obstacle, position: { ...obstacle.position, [axis]: value } })
+                )
+              )}
+              {OBSTACLE_DIMENSION_FIELDS.map(([axis, label]) =>
+                renderObstacleInput(axis, label, obstacle.dimensions[axis], '1', (value) =>
+                  updateObstacle(i, { ...obstacle, dimensions: { ...obstacle.dimensions, [axis]: value } })
+                )
+              )}
+            </div>
+            {errors[`obstacle-${i}`] && <p className="text-xs text-red-400">{errors[`obstacle-${i}`]}</p>}
+          </div>
+        ))}
+      </div>
     </div>
   );
 }
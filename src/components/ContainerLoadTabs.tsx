@@ -0,0 +1,28 @@
+import { useLoadingStore } from '../store/useLoadingStore';
+
+export function ContainerLoadTabs() {
+  const { multiResult, activeLoadIndex, selectContainerLoad } = useLoadingStore();
+
+  if (!multiResult || multiResult.loads.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {multiResult.loads.map((load, index) => (
+        <button
+          key={index}
+          onClick={() => selectContainerLoad(index)}
+          title={load.container.name}
+          className={`min-w-8 px-2 py-1 rounded-md text-sm font-medium transition-colors ${
+            index === activeLoadIndex
+              ? 'bg-blue-600 text-white'
+              : 'bg-slate-600 text-slate-300 hover:bg-slate-500'
+          }`}
+        >
+          {index + 1}
+        </button>
+      ))}
+    </div>
+  );
+}
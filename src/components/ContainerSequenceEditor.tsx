@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { Layers, Plus, X } from 'lucide-react';
+import { useLoadingStore } from '../store/useLoadingStore';
+
+export function ContainerSequenceEditor() {
+  const {
+    multiContainer,
+    setMultiContainer,
+    containerSequence,
+    containerPresets,
+    addToContainerSequence,
+    removeFromContainerSequence,
+  } = useLoadingStore();
+  const [presetToAdd, setPresetToAdd] = useState(containerPresets[0]?.id ?? '');
+
+  const getPresetName = (presetId: string) =>
+    containerPresets.find((p) => p.id === presetId)?.name ?? 'Unknown container';
+
+  return (
+    <div className="space-y-3 border-t border-slate-600 pt-3">
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={multiContainer}
+          onChange={(e) => setMultiContainer(e.target.checked)}
+          className="w-4 h-4 rounded bg-slate-800 border-slate-600 text-blue-500 focus:ring-blue-500"
+        />
+        <span className="text-sm">Overflow into additional containers</span>
+      </label>
+
+      {multiContainer && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-xs text-slate-400">
+            <Layers className="w-3.5 h-3.5" />
+            <span>
+              {containerSequence.length === 0
+                ? 'Repeats the selected container'
+                : 'Opened in order, the last one repeats'}
+            </span>
+          </div>
+
+          {containerSequence.map((presetId, index) => (
+            <div
+              key={`${presetId}-${index}`}
+              className="flex items-center justify-between bg-slate-600 rounded-md px-3 py-1.5 text-sm"
+            >
+              <span className="truncate">
+                {index + 1}. {getPresetName(presetId)}
+              </span>
+              <button
+                onClick={() => removeFromContainerSequence(index)}
+                className="p-1 hover:bg-slate-500 rounded transition-colors"
+                title="Remove from sequence"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <select
+              value={presetToAdd}
+              onChange={(e) => setPresetToAdd(e.target.value)}
+              className="flex-1 min-w-0 px-2 py-1.5 bg-slate-600 border border-slate-500 text-white text-sm rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {containerPresets.map((preset) => (
+                <option key={preset.id} value={preset.id}>
+                  {preset.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => presetToAdd && addToContainerSequence(presetToAdd)}
+              className="px-2 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+              title="Add to sequence"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import type { ILoadingResult, ISequenceConflict } from '../core/types';
+
+const CONFLICT_LABELS: Record<ISequenceConflict['kind'], string> = {
+  on_top: 'under',
+  in_front: 'behind',
+};
+
+interface DeliverySummaryProps {
+  result: ILoadingResult;
+}
+
+/**
+ * Loading order for multi-drop loads: consecutive items of the same stop
+ * are shown as one step, in the order they go into the container.
+ */
+export function DeliverySummary({ result }: DeliverySummaryProps) {
+  const { placedItems, loadingSequence = [], sequenceConflicts = [] } = result;
+  if (!placedItems.some((placed) => placed.item.deliveryStop !== undefined)) return null;
+
+  const byId = new Map(placedItems.map((placed) => [placed.itemId, placed]));
+  const steps: Array<{ stop?: number; names: Map<string, number> }> = [];
+
+  for (const itemId of loadingSequence) {
+    const placed = byId.get(itemId);
+    if (!placed) continue;
+
+    let step = steps[steps.length - 1];
+    if (!step || step.stop !== placed.item.deliveryStop) {
+      step = { stop: placed.item.deliveryStop, names: new Map() };
+      steps.push(step);
+    }
+    step.names.set(placed.item.name, (step.names.get(placed.item.name) ?? 0) + 1);
+  }
+
+  return (
+    <div className="pt-2 mt-2 border-t border-slate-600 space-y-1.5">
+      <div className="font-semibold">Loading order:</div>
+      {steps.map((step, index) => (
+        <div key={index} className="text-xs">
+          <span className="text-slate-400">{index + 1}. </span>
+          <span>{step.stop !== undefined ? `Stop ${step.stop}` : 'No stop'}: </span>
+          <span className="text-slate-300">
+            {Array.from(step.names.entries()).map(([name, count]) => `${name} ×${count}`).join(', ')}
+          </span>
+        </div>
+      ))}
+      {sequenceConflicts.length === 0 ? (
+        <div className="text-xs text-green-400">Every stop can be unloaded without moving other goods</div>
+      ) : (
+        sequenceConflicts.map((conflict) => {
+          const blocked = byId.get(conflict.itemId)!.item;
+          const blocker = byId.get(conflict.blockedBy)!.item;
+          return (
+            <div key={`${conflict.itemId}|${conflict.blockedBy}`} className="text-xs text-amber-400">
+              {blocked.name} (stop {blocked.deliveryStop}) is {CONFLICT_LABELS[conflict.kind]} {blocker.name}
+              {blocker.deliveryStop !== undefined ? ` (stop ${blocker.deliveryStop})` : ''}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from 'react';
+import { Truck, ChevronDown, ChevronUp } from 'lucide-react';
+import { useLoadingStore } from '../store/useLoadingStore';
+
+export function FleetRecommendation() {
+  const {
+    cargoItems,
+    containerPresets,
+    fleetOptions,
+    isRecommending,
+    isCalculating,
+    multiResult,
+    recommendFleet,
+    applyFleetOption,
+    setPresetCost,
+  } = useLoadingStore();
+  const [showRates, setShowRates] = useState(false);
+
+  const appliedIndex = fleetOptions?.findIndex((option) => option.result === multiResult) ?? -1;
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="flex gap-2">
+        <button
+          onClick={recommendFleet}
+          disabled={cargoItems.length === 0 || isRecommending || isCalculating}
+          className="flex-1 bg-slate-700 hover:bg-slate-600 disabled:bg-slate-700 disabled:text-slate-500 disabled:cursor-not-allowed rounded-lg p-3 flex items-center justify-center gap-2 text-sm font-semibold transition-colors"
+        >
+          {isRecommending ? (
+            <>
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+              Comparing fleets...
+            </>
+          ) : (
+            <>
+              <Truck size={18} />
+              Recommend Fleet
+            </>
+          )}
+        </button>
+        <button
+          onClick={() => setShowRates(!showRates)}
+          className="px-3 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors"
+          title="Edit container rates"
+        >
+          {showRates ? <ChevronUp size={18} /> : <ChevronDown size={18} />}
+        </button>
+      </div>
+
+      {showRates && (
+        <div className="bg-slate-700 rounded-lg p-3 space-y-2">
+          <div className="text-xs text-slate-400">Rate per container</div>
+          {containerPresets.map((preset) => (
+            <div key={preset.id} className="flex items-center justify-between gap-2 text-sm">
+              <span className="truncate">{preset.name}</span>
+              <input
+                type="number"
+                min="0"
+                step="50"
+                value={preset.cost ?? 0}
+                onChange={(e) => setPresetCost(preset.id, Math.max(0, parseFloat(e.target.value) || 0))}
+                className="w-24 px-2 py-1 bg-slate-600 border border-slate-500 text-white text-sm rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {fleetOptions && fleetOptions.length === 0 && (
+        <div className="bg-slate-700 rounded-lg p-3 text-sm text-slate-400">
+          No fleet fits all items within the search limits.
+        </div>
+      )}
+
+      {fleetOptions && fleetOptions.length > 0 && (
+        <div className="space-y-2">
+          {fleetOptions.map((option, index) => (
+            <button
+              key={option.label}
+              onClick={() => applyFleetOption(index)}
+              className={`w-full text-left rounded-lg p-3 text-sm transition-colors ${
+                index === appliedIndex ? 'bg-blue-600' : 'bg-slate-700 hover:bg-slate-600'
+              }`}
+            >
+              <div className="flex justify-between font-semibold">
+                <span>
+                  {index + 1}. {option.label}
+                </span>
+                <span>{option.totalCost.toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between text-xs text-slate-300 mt-1">
+                <span>
+                  {option.presets.length} container{option.presets.length === 1 ? '' : 's'}
+                </span>
+                <span>{option.utilizationPercent.toFixed(1)}% utilized</span>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { Boxes, ChevronDown, ChevronUp, Undo2 } from 'lucide-react';
+import { useLoadingStore } from '../store/useLoadingStore';
+import { isLooseCarton, PALLET_TYPES } from '../core/constants/pallets';
+
+export function PalletBuilder() {
+  const {
+    cargoItems,
+    palletizerConfig,
+    palletization,
+    palletizedFrom,
+    isPalletizing,
+    isCalculating,
+    setPalletizerConfig,
+    palletizeCargo,
+    unpalletizeCargo,
+    cancelCalculation,
+  } = useLoadingStore();
+  const [showOptions, setShowOptions] = useState(false);
+
+  const cartonCount = cargoItems.filter(isLooseCarton).reduce((acc, item) => acc + item.quantity, 0);
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="flex gap-2">
+        <button
+          onClick={isPalletizing ? cancelCalculation : palletizeCargo}
+          disabled={!isPalletizing && (cartonCount === 0 || isCalculating)}
+          className="flex-1 bg-slate-700 hover:bg-slate-600 disabled:bg-slate-700 disabled:text-slate-500 disabled:cursor-not-allowed rounded-lg p-3 flex items-center justify-center gap-2 text-sm font-semibold transition-colors"
+        >
+          {isPalletizing ? (
+            <>
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+              Building pallets · Cancel
+            </>
+          ) : (
+            <>
+              <Boxes size={18} />
+              Build Pallets ({cartonCount} cartons)
+            </>
+          )}
+        </button>
+        <button
+          onClick={() => setShowOptions(!showOptions)}
+          className="px-3 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors"
+          title="Choose pallet type and stack height"
+        >
+          {showOptions ? <ChevronUp size={18} /> : <ChevronDown size={18} />}
+        </button>
+      </div>
+
+      {showOptions && (
+        <div className="bg-slate-700 rounded-lg p-3 space-y-3 text-sm">
+          <div>
+            <label className="block text-xs text-slate-400 mb-1">Pallet type</label>
+            <select
+              value={palletizerConfig.pallet.id}
+              onChange={(e) => {
+                const pallet = Object.values(PALLET_TYPES).find((type) => type.id === e.target.value);
+                if (pallet) setPalletizerConfig({ pallet });
+              }}
+              className="w-full bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+            >
+              {Object.values(PALLET_TYPES).map((type) => (
+                <option key={type.id} value={type.id}>
+                  {type.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <label className="text-xs text-slate-400">Max height incl. pallet (cm)</label>
+            <input
+              type="number"
+              min="30"
+              step="5"
+              value={Math.round(palletizerConfig.maxStackHeight * 100)}
+              onChange={(e) => {
+                const height = parseFloat(e.target.value);
+                if (height > 0) setPalletizerConfig({ maxStackHeight: height / 100 });
+              }}
+              className="w-24 px-2 py-1 bg-slate-600 border border-slate-500 text-white text-sm rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={palletizerConfig.allowMixedItems}
+              onChange={(e) => setPalletizerConfig({ allowMixedItems: e.target.checked })}
+              className="w-4 h-4 rounded bg-slate-800 border-slate-600 text-blue-500 focus:ring-blue-500"
+            />
+            <span>Mix carton types on a pallet</span>
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={palletizerConfig.doubleStackable}
+              onChange={(e) => setPalletizerConfig({ doubleStackable: e.target.checked })}
+              className="w-4 h-4 rounded bg-slate-800 border-slate-600 text-blue-500 focus:ring-blue-500"
+            />
+            <span>Pallets may be double-stacked</span>
+          </label>
+        </div>
+      )}
+
+      {palletization && (
+        <div className="bg-slate-700 rounded-lg p-3 text-sm space-y-1">
+          <div className="flex justify-between">
+            <span className="text-slate-400">Pallets built:</span>
+            <span className="font-semibold">{palletization.palletCount}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-slate-400">Cartons on pallets:</span>
+            <span>{palletization.cartonCount}</span>
+          </div>
+          {palletizedFrom && (
+            <button
+              onClick={unpalletizeCargo}
+              className="w-full mt-2 bg-slate-600 hover:bg-slate-500 rounded-md py-1.5 flex items-center justify-center gap-2 text-xs transition-colors"
+            >
+              <Undo2 size={14} />
+              Back to loose cartons
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
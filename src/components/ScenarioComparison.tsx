@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { Columns3, ChevronDown, ChevronUp } from 'lucide-react';
+import { useLoadingStore } from '../store/useLoadingStore';
+import type { IPackingConfig } from '../core/engine/PackingEngine';
+import type { IScenario } from '../core/engine/WorkerPool';
+import { presetToContainer } from '../core/constants/containers';
+
+interface SettingsVariant {
+  id: string;
+  label: string;
+  config: Partial<IPackingConfig>;
+}
+
+// Applied on top of the current settings.
+const VARIANTS: SettingsVariant[] = [
+  { id: 'current', label: 'Current settings', config: {} },
+  { id: 'balanced', label: 'Balanced', config: { preferBalancedPlacement: true } },
+  { id: 'fragile-last', label: 'Fragile last', config: { loadFragileLast: true } },
+  { id: 'no-patterns', label: 'No patterns', config: { enablePatternPacking: false } },
+];
+
+export function ScenarioComparison() {
+  const {
+    cargoItems,
+    containerPresets,
+    packingConfig,
+    scenarioResults,
+    isComparing,
+    comparisonProgress,
+    loadingResult,
+    compareScenarios,
+    applyScenarioResult,
+    cancelCalculation,
+  } = useLoadingStore();
+  const [showOptions, setShowOptions] = useState(false);
+  const [presetIds, setPresetIds] = useState<string[] | null>(null);
+  const [variantIds, setVariantIds] = useState<string[]>(['current']);
+
+  const selectedPresetIds = presetIds ?? containerPresets.map((preset) => preset.id);
+
+  const toggle = (ids: string[], id: string) =>
+    ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id];
+
+  const handleCompare = () => {
+    const scenarios: IScenario[] = [];
+    for (const preset of containerPresets.filter((p) => selectedPresetIds.includes(p.id))) {
+      for (const variant of VARIANTS.filter((v) => variantIds.includes(v.id))) {
+        scenarios.push({
+          id: `${preset.id}:${variant.id}`,
+          label: `${preset.name} · ${variant.label}`,
+          container: presetToContainer(preset),
+          config: { ...packingConfig, ...variant.config },
+        });
+      }
+    }
+    compareScenarios(scenarios);
+  };
+
+  const scenarioCount = selectedPresetIds.length * variantIds.length;
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="flex gap-2">
+        <button
+          onClick={isComparing ? cancelCalculation : handleCompare}
+          disabled={!isComparing && (cargoItems.length === 0 || scenarioCount === 0)}
+          className="flex-1 bg-slate-700 hover:bg-slate-600 disabled:bg-slate-700 disabled:text-slate-500 disabled:cursor-not-allowed rounded-lg p-3 flex items-center justify-center gap-2 text-sm font-semibold transition-colors"
+        >
+          {isComparing ? (
+            <>
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+              Comparing {comparisonProgress?.completed ?? 0}/{comparisonProgress?.total ?? scenarioCount} · Cancel
+            </>
+          ) : (
+            <>
+              <Columns3 size={18} />
+              Compare Scenarios ({scenarioCount})
+            </>
+          )}
+        </button>
+        <button
+          onClick={() => setShowOptions(!showOptions)}
+          className="px-3 bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors"
+          title="Choose containers and settings"
+        >
+          {showOptions ? <ChevronUp size={18} /> : <ChevronDown size={18} />}
+        </button>
+      </div>
+
+      {showOptions && (
+        <div className="bg-slate-700 rounded-lg p-3 space-y-3 text-sm">
+          <div className="space-y-1">
+            <div className="text-xs text-slate-400">Containers</div>
+            {containerPresets.map((preset) => (
+              <label key={preset.id} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selectedPresetIds.includes(preset.id)}
+                  onChange={() => setPresetIds(toggle(selectedPresetIds, preset.id))}
+                  className="w-4 h-4 rounded bg-slate-800 border-slate-600 text-blue-500 focus:ring-blue-500"
+                />
+                <span className="truncate">{preset.name}</span>
+              </label>
+            ))}
+          </div>
+          <div className="space-y-1">
+            <div className="text-xs text-slate-400">Settings</div>
+            {VARIANTS.map((variant) => (
+              <label key={variant.id} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={variantIds.includes(variant.id)}
+                  onChange={() => setVariantIds(toggle(variantIds, variant.id))}
+                  className="w-4 h-4 rounded bg-slate-800 border-slate-600 text-blue-500 focus:ring-blue-500"
+                />
+                <span>{variant.label}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {scenarioResults && scenarioResults.length > 0 && (
+        <div className="space-y-2">
+          {scenarioResults.map(({ scenario, result, error }, index) => {
+            const total = result ? result.placedItems.length + result.unplacedItems.length : 0;
+            const isApplied = result !== undefined && result === loadingResult;
+
+            return (
+              <button
+                key={scenario.id}
+                onClick={() => applyScenarioResult(index)}
+                disabled={!result}
+                className={`w-full text-left rounded-lg p-3 text-sm transition-colors disabled:cursor-not-allowed ${
+                  isApplied ? 'bg-blue-600/30 border border-blue-500' : 'bg-slate-700 hover:bg-slate-600 border border-transparent'
+                }`}
+              >
+                <div className="flex justify-between gap-2">
+                  <span className="font-semibold truncate">{scenario.label}</span>
+                  {index === 0 && result && <span className="text-xs text-green-400">Best</span>}
+                </div>
+                {result ? (
+                  <div className="flex justify-between text-slate-400 mt-1">
+                    <span>
+                      {result.placedItems.length}/{total} placed
+                    </span>
+                    <span>{result.utilizationPercent.toFixed(1)}% used</span>
+                  </div>
+                ) : (
+                  <div className="text-red-400 mt-1">{error}</div>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,12 @@
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Grid, Box } from '@react-three/drei';
 import { useLoadingStore } from '../store/useLoadingStore';
+import { ContainerLoadTabs } from './ContainerLoadTabs';
 
 function Container() {
-  const container = useLoadingStore((state) => state.container);
+  const container = useLoadingStore((state) =>
+    state.multiResult?.loads[state.activeLoadIndex]?.container ?? state.container
+  );
   const { length, width, height } = container.dimensions;
 
   return (
@@ -20,6 +23,20 @@ function Container() {
         />
       </Box>
 
+      {container.obstacles?.map((obstacle) => (
+        <Box
+          key={obstacle.id}
+          args={[obstacle.dimensions.length, obstacle.dimensions.height, obstacle.dimensions.width]}
+          position={[
+            obstacle.position.x + obstacle.dimensions.length / 2,
+            obstacle.position.y + obstacle.dimensions.height / 2,
+            obstacle.position.z + obstacle.dimensions.width / 2,
+          ]}
+        >
+          <meshStandardMaterial color="#ef4444" transparent opacity={0.35} />
+        </Box>
+      ))}
+
       <Grid
         args={[length, width]}
         position={[length / 2, 0, width / 2]}
@@ -111,8 +128,21 @@ function PlacedItems() {
 }
 
 export function Scene3D() {
+  const multiResult = useLoadingStore((state) => state.multiResult);
+  const activeLoadIndex = useLoadingStore((state) => state.activeLoadIndex);
+
   return (
-    <div className="w-full h-full">
+    <div className="w-full h-full relative">
+      {multiResult && multiResult.loads.length > 0 && (
+        <div className="absolute top-4 left-4 z-10 bg-slate-800/90 text-white rounded-lg p-3 space-y-2">
+          <div className="text-xs text-slate-400">
+            Container {activeLoadIndex + 1} of {multiResult.totalContainersNeeded}
+            {' · '}
+            {multiResult.loads[activeLoadIndex]?.container.name}
+          </div>
+          <ContainerLoadTabs />
+        </div>
+      )}
       <Canvas
         camera={{
           position: [15, 10, 15],
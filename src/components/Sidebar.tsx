@@ -1,10 +1,66 @@
 import { useState } from 'react';
 import { Box, Package, Cylinder, Play, Trash2, Plus, ChevronDown, ChevronUp } from 'lucide-react';
-import { useLoadingStore } from '../store/useLoadingStore';
-import type { ICargoItem } from '../core/types';
+import { useLoadingStore, type SearchAlgorithm } from '../store/useLoadingStore';
+import type { ICargoItem, IUnplacedItem, PlacementCheck, UnplacedReason } from '../core/types';
 import { ContainerSelector } from './ContainerSelector';
 import { ContainerEditor } from './ContainerEditor';
+import { ContainerSequenceEditor } from './ContainerSequenceEditor';
+import { ContainerLoadTabs } from './ContainerLoadTabs';
+import { FleetRecommendation } from './FleetRecommendation';
+import { ScenarioComparison } from './ScenarioComparison';
+import { BalanceSummary } from './BalanceSummary';
+import { DeliverySummary } from './DeliverySummary';
+import { CalculationProgress } from './CalculationProgress';
 import { CargoItemForm } from './CargoItemForm';
+import { PalletBuilder } from './PalletBuilder';
+
+const REASON_LABELS: Record<UnplacedReason, string> = {
+  insufficient_space: 'No space left',
+  weight_limit_exceeded: 'Payload exceeded',
+  dimension_mismatch: 'Larger than container',
+  constraint_violation: 'Constraint violated',
+  unknown: 'Unknown',
+};
+
+const SEARCH_OPTIONS: Array<{ value: SearchAlgorithm; label: string }> = [
+  { value: 'greedy', label: 'Fast (single pass)' },
+  { value: 'genetic', label: 'Search: genetic algorithm' },
+  { value: 'simulated_annealing', label: 'Search: simulated annealing' },
+];
+
+const CHECK_LABELS: Record<PlacementCheck, string> = {
+  orientation: 'no allowed orientation',
+  dimensions: 'dimensions',
+  bounds: 'container bounds',
+  floor: 'floor only',
+  collision: 'collision',
+  support: 'support',
+  stacking: 'stacking limits',
+  sequence: 'delivery order',
+  payload: 'payload',
+};
+
+function groupUnplacedItems(unplacedItems: IUnplacedItem[]) {
+  const groups = new Map<string, { name: string; color?: string; reason: UnplacedReason; check?: PlacementCheck; count: number }>();
+
+  for (const unplaced of unplacedItems) {
+    const key = `${unplaced.item.name}|${unplaced.reason}|${unplaced.check}`;
+    const group = groups.get(key);
+    if (group) {
+      group.count++;
+    } else {
+      groups.set(key, {
+        name: unplaced.item.name,
+        color: unplaced.item.color,
+        reason: unplaced.reason,
+        check: unplaced.check,
+        count: 1,
+      });
+    }
+  }
+
+  return Array.from(groups.entries()).map(([key, group]) => ({ key, ...group }));
+}
 
 export function Sidebar() {
   const {
@@ -14,12 +70,26 @@ export function Sidebar() {
     addCargoItem,
     removeCargoItem,
     startCalculation,
+    cancelCalculation,
     isCalculating,
+    isPalletizing,
+    calculationProgress,
     loadingResult,
+    multiResult,
+    activeLoadIndex,
+    calculationError,
+    packingConfig,
+    setPackingConfig,
+    searchAlgorithm,
+    setSearchAlgorithm,
+    multiContainer,
   } = useLoadingStore();
 
   const [showForm, setShowForm] = useState(false);
 
+  const activeContainer = multiResult?.loads[activeLoadIndex]?.container ?? container;
+  const unplacedItems = multiResult ? multiResult.unplacedItems : loadingResult?.unplacedItems ?? [];
+
   const clearItems = () => {
     setCargoItems([]);
   };
@@ -46,6 +116,7 @@ export function Sidebar() {
         <div className="bg-slate-700 rounded-lg p-4 space-y-4">
           <ContainerSelector />
           <ContainerEditor />
+          <ContainerSequenceEditor />
         </div>
       </div>
 
@@ -107,7 +178,11 @@ export function Sidebar() {
                       ⌀{Math.round(item.rollDimensions.diameter * 100)}×{Math.round(item.rollDimensions.length * 100)} cm
                     </div>
                   )}
-                  <div>Qty: {item.quantity}</div>
+                  <div>
+                    Qty: {item.quantity}
+                    {item.deliveryStop !== undefined && ` · Stop ${item.deliveryStop}`}
+                    {item.fragile && ' · Fragile'}
+                  </div>
                 </div>
               </div>
               <button
@@ -120,12 +195,61 @@ export function Sidebar() {
             </div>
           ))}
         </div>
+
+        <PalletBuilder />
       </div>
 
       <div className="mt-auto pt-6 border-t border-slate-700">
+        <label className="flex items-center gap-2 cursor-pointer mb-4">
+          <input
+            type="checkbox"
+            checked={packingConfig.missingWeightPolicy === 'reject'}
+            onChange={(e) => setPackingConfig({ missingWeightPolicy: e.target.checked ? 'reject' : 'zero' })}
+            className="w-4 h-4 rounded bg-slate-800 border-slate-600 text-blue-500 focus:ring-blue-500"
+          />
+          <span className="text-sm">Require weight for every item</span>
+        </label>
+
+        <label className="flex items-center gap-2 cursor-pointer mb-4">
+          <input
+            type="checkbox"
+            checked={packingConfig.preferBalancedPlacement === true}
+            onChange={(e) => setPackingConfig({ preferBalancedPlacement: e.target.checked })}
+            className="w-4 h-4 rounded bg-slate-800 border-slate-600 text-blue-500 focus:ring-blue-500"
+          />
+          <span className="text-sm">Keep centre of gravity balanced</span>
+        </label>
+
+        <label className="flex items-center gap-2 cursor-pointer mb-4">
+          <input
+            type="checkbox"
+            checked={packingConfig.loadFragileLast === true}
+            onChange={(e) => setPackingConfig({ loadFragileLast: e.target.checked })}
+            className="w-4 h-4 rounded bg-slate-800 border-slate-600 text-blue-500 focus:ring-blue-500"
+          />
+          <span className="text-sm">Load fragile items last</span>
+        </label>
+
+        {!multiContainer && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium mb-2">Optimisation</label>
+            <select
+              value={searchAlgorithm}
+              onChange={(e) => setSearchAlgorithm(e.target.value as SearchAlgorithm)}
+              className="w-full bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+            >
+              {SEARCH_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         <button
           onClick={handleStartCalculation}
-          disabled={cargoItems.length === 0 || isCalculating}
+          disabled={cargoItems.length === 0 || isCalculating || isPalletizing}
           className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-slate-700 disabled:cursor-not-allowed rounded-lg p-4 flex items-center justify-center gap-2 font-semibold transition-colors"
         >
           {isCalculating ? (
@@ -141,25 +265,96 @@ export function Sidebar() {
           )}
         </button>
 
+        {isCalculating && (
+          <CalculationProgress progress={calculationProgress} onCancel={cancelCalculation} />
+        )}
+
+        <FleetRecommendation />
+
+        <ScenarioComparison />
+
+        {calculationError && (
+          <div className="mt-4 bg-red-500/10 border border-red-500 rounded-lg p-3">
+            <p className="text-red-400 text-sm">{calculationError}</p>
+          </div>
+        )}
+
+        {multiResult && (
+          <div className="mt-4 bg-slate-700 rounded-lg p-4 space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-slate-400">Containers needed:</span>
+              <span className="font-semibold">{multiResult.totalContainersNeeded}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-slate-400">Total weight:</span>
+              <span>{Math.round(multiResult.totalWeight)} kg</span>
+            </div>
+            <ContainerLoadTabs />
+          </div>
+        )}
+
+        {multiResult && !loadingResult && unplacedItems.length > 0 && (
+          <div className="mt-4 bg-red-500/10 border border-red-500 rounded-lg p-3">
+            <p className="text-red-400 text-sm">No item fits into the selected containers.</p>
+          </div>
+        )}
+
         {loadingResult && (
           <div className="mt-4 bg-slate-700 rounded-lg p-4 space-y-2 text-sm">
-            <div className="font-semibold mb-2">Results:</div>
+            <div className="font-semibold mb-2">
+              {multiResult ? `Container ${activeLoadIndex + 1}: ${activeContainer.name}` : 'Results:'}
+            </div>
             <div className="flex justify-between">
               <span className="text-slate-400">Placed:</span>
               <span className="text-green-400">{loadingResult.placedItems.length}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-slate-400">Unplaced:</span>
-              <span className="text-red-400">{loadingResult.unplacedItems.length}</span>
+              <span className="text-red-400">{unplacedItems.length}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-slate-400">Utilization:</span>
               <span>{loadingResult.utilizationPercent.toFixed(1)}%</span>
             </div>
+            <div className="flex justify-between">
+              <span className="text-slate-400">Weight:</span>
+              <span>
+                {Math.round(loadingResult.totalWeight)}
+                {activeContainer.maxWeight > 0 && ` / ${activeContainer.maxWeight}`} kg
+              </span>
+            </div>
             <div className="flex justify-between">
               <span className="text-slate-400">Time:</span>
               <span>{loadingResult.executionTime.toFixed(2)}ms</span>
             </div>
+
+            {loadingResult.weightDistribution && (
+              <BalanceSummary distribution={loadingResult.weightDistribution} />
+            )}
+
+            <DeliverySummary result={loadingResult} />
+
+            {unplacedItems.length > 0 && (
+              <div className="pt-2 mt-2 border-t border-slate-600 space-y-1.5">
+                <div className="font-semibold">Not loaded:</div>
+                {groupUnplacedItems(unplacedItems).map((group) => (
+                  <div
+                    key={group.key}
+                    className="border-l-4 pl-2 text-xs"
+                    style={{ borderLeftColor: group.color || '#64748b' }}
+                  >
+                    <div className="flex justify-between">
+                      <span className="truncate">{group.name}</span>
+                      <span className="text-slate-400">×{group.count}</span>
+                    </div>
+                    <div className="text-red-400">
+                      {REASON_LABELS[group.reason]}
+                      {group.check && <span className="text-slate-400"> ({CHECK_LABELS[group.check]})</span>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         )}
       </div>
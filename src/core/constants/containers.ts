@@ -1,4 +1,4 @@
-import type { IContainerPreset } from '../types';
+import type { IContainer, IContainerPreset, IObstacle } from '../types';
 
 export const DEFAULT_CONTAINERS: Record<string, IContainerPreset> = {
   '20DC': {
@@ -10,6 +10,7 @@ export const DEFAULT_CONTAINERS: Record<string, IContainerPreset> = {
     height: 237,
     maxWeight: 28000,
     isDefault: true,
+    cost: 1800,
   },
   '40DC': {
     id: '40dc-default',
@@ -20,6 +21,7 @@ export const DEFAULT_CONTAINERS: Record<string, IContainerPreset> = {
     height: 235,
     maxWeight: 29000,
     isDefault: true,
+    cost: 2600,
   },
   '40HC': {
     id: '40hc-default',
@@ -30,6 +32,7 @@ export const DEFAULT_CONTAINERS: Record<string, IContainerPreset> = {
     height: 269,
     maxWeight: 29000,
     isDefault: true,
+    cost: 2800,
   },
   TRUCK: {
     id: 'truck-default',
@@ -40,6 +43,7 @@ export const DEFAULT_CONTAINERS: Record<string, IContainerPreset> = {
     height: 260,
     maxWeight: 24000,
     isDefault: true,
+    cost: 1500,
   },
 };
 
@@ -54,6 +58,52 @@ export function convertMToCm(m: number): number {
   return Math.round(m * M_TO_CM);
 }
 
+export function presetToContainer(preset: IContainerPreset): IContainer {
+  return {
+    id: preset.id,
+    name: preset.name,
+    dimensions: {
+      length: convertCmToM(preset.length),
+      width: convertCmToM(preset.width),
+      height: convertCmToM(preset.height),
+    },
+    maxWeight: preset.maxWeight,
+    obstacles: preset.obstacles?.map(obstacleCmToM),
+  };
+}
+
+export function obstacleCmToM(obstacle: IObstacle): IObstacle {
+  return {
+    ...obstacle,
+    position: {
+      x: convertCmToM(obstacle.position.x),
+      y: convertCmToM(obstacle.position.y),
+      z: convertCmToM(obstacle.position.z),
+    },
+    dimensions: {
+      length: convertCmToM(obstacle.dimensions.length),
+      width: convertCmToM(obstacle.dimensions.width),
+      height: convertCmToM(obstacle.dimensions.height),
+    },
+  };
+}
+
+export function obstacleMToCm(obstacle: IObstacle): IObstacle {
+  return {
+    ...obstacle,
+    position: {
+      x: convertMToCm(obstacle.position.x),
+      y: convertMToCm(obstacle.position.y),
+      z: convertMToCm(obstacle.position.z),
+    },
+    dimensions: {
+      length: convertMToCm(obstacle.dimensions.length),
+      width: convertMToCm(obstacle.dimensions.width),
+      height: convertMToCm(obstacle.dimensions.height),
+    },
+  };
+}
+
 export function formatDimensions(length: number, width: number, height: number, unit: 'cm' | 'm' = 'cm'): string {
   if (unit === 'm') {
     const l = convertCmToM(length).toFixed(2);
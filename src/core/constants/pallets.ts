@@ -0,0 +1,36 @@
+import type { ICargoItem, IPalletType } from '../types';
+
+export const PALLET_TYPES: Record<string, IPalletType> = {
+  EUR: {
+    id: 'eur',
+    name: 'EUR pallet (120 × 80)',
+    dimensions: { length: 1.2, width: 0.8, height: 0.144 },
+    weight: 25,
+    maxLoad: 1500,
+  },
+  EUR2: {
+    id: 'eur2',
+    name: 'EUR 2 pallet (120 × 100)',
+    dimensions: { length: 1.2, width: 1.0, height: 0.144 },
+    weight: 33,
+    maxLoad: 1250,
+  },
+  US: {
+    id: 'us',
+    name: 'US pallet (48 × 40 in)',
+    dimensions: { length: 1.219, width: 1.016, height: 0.14 },
+    weight: 22,
+    maxLoad: 1200,
+  },
+};
+
+// Usual limit for pallets loaded into containers and trucks.
+export const DEFAULT_MAX_STACK_HEIGHT = 1.8;
+
+/**
+ * Loose boxes, the items that can be built onto pallets. Rolls, pallets
+ * and items already on a pallet are not.
+ */
+export function isLooseCarton(item: ICargoItem): boolean {
+  return item.type === 'box' && !item.isPalletized && !item.palletDimensions && item.dimensions !== undefined;
+}
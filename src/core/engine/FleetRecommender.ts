@@ -0,0 +1,193 @@
+import type { ICargoItem, IContainerPreset, IMultiLoadingResult } from '../types';
+import { PackingEngine, type IPackingConfig } from './PackingEngine';
+import { calculateVolume, presetToContainer } from '../constants/containers';
+import { defaultStrategyRegistry, type StrategyRegistry } from '../strategies/StrategyRegistry';
+
+export interface IFleetOption {
+  presets: IContainerPreset[];
+  label: string;
+  totalCost: number;
+  utilizationPercent: number;
+  result: IMultiLoadingResult;
+}
+
+export interface IFleetRecommendationConfig {
+  maxFleetSize: number;
+  maxOptions: number;
+  maxEvaluations: number;
+  timeLimit: number;
+}
+
+interface FleetCandidate {
+  presets: IContainerPreset[];
+  totalCost: number;
+}
+
+/**
+ * Ranks combinations of container presets by freight cost. Candidates are
+ * enumerated cheapest first, pre-filtered on volume and payload capacity,
+ * and only then checked with a full multi-container packing run.
+ */
+export class FleetRecommender {
+  private packingConfig: Partial<IPackingConfig>;
+  private config: IFleetRecommendationConfig;
+  private registry: StrategyRegistry;
+
+  constructor(
+    packingConfig: Partial<IPackingConfig> = {},
+    config?: Partial<IFleetRecommendationConfig>,
+    registry: StrategyRegistry = defaultStrategyRegistry
+  ) {
+    this.packingConfig = packingConfig;
+    this.registry = registry;
+    this.config = {
+      maxFleetSize: 6,
+      maxOptions: 5,
+      maxEvaluations: 24,
+      timeLimit: 20000,
+      ...config
+    };
+  }
+
+  recommend(items: ICargoItem[], presets: IContainerPreset[]): IFleetOption[] {
+    const startTime = performance.now();
+    const usablePresets = presets.filter((p) => p.length > 0 && p.width > 0 && p.height > 0);
+    if (items.length === 0 || usablePresets.length === 0) return [];
+
+    const cargoVolume = items.reduce((acc, item) => acc + this.getItemVolume(item) * item.quantity, 0);
+    const cargoWeight = items.reduce((acc, item) => acc + (item.weight || 0) * item.quantity, 0);
+
+    const candidates = this.enumerateCandidates(usablePresets)
+      .filter((candidate) => this.hasCapacity(candidate, cargoVolume, cargoWeight));
+
+    const options: IFleetOption[] = [];
+    const seenLabels = new Set<string>();
+    let evaluations = 0;
+
+    for (const candidate of candidates) {
+      if (options.length >= this.config.maxOptions) break;
+      if (evaluations >= this.config.maxEvaluations) break;
+      if (performance.now() - startTime > this.config.timeLimit) break;
+
+      const label = this.getLabel(candidate.presets);
+      if (seenLabels.has(label)) continue;
+      seenLabels.add(label);
+      evaluations++;
+
+      // Largest containers first, so bulky items are not stranded in a
+      // small container at the end of the sequence.
+      const sequence = [...candidate.presets].sort(
+        (a, b) => calculateVolume(b.length, b.width, b.height) - calculateVolume(a.length, a.width, a.height)
+      );
+
+      const engine = new PackingEngine({ ...this.packingConfig, maxContainers: sequence.length }, this.registry);
+      const result = engine.runMultiContainer(items, sequence.map(presetToContainer));
+      if (result.unplacedItems.length > 0) continue;
+
+      // A fleet that leaves containers empty is really the smaller fleet.
+      const usedPresets = sequence.slice(0, result.totalContainersNeeded);
+      const usedLabel = this.getLabel(usedPresets);
+      if (usedPresets.length < sequence.length && options.some((o) => o.label === usedLabel)) continue;
+      seenLabels.add(usedLabel);
+
+      options.push({
+        presets: usedPresets,
+        label: usedLabel,
+        totalCost: this.getCost(usedPresets),
+        utilizationPercent: this.getUtilization(result),
+        result
+      });
+    }
+
+    return options.sort((a, b) => {
+      if (a.totalCost !== b.totalCost) return a.totalCost - b.totalCost;
+      if (a.presets.length !== b.presets.length) return a.presets.length - b.presets.length;
+      return b.utilizationPercent - a.utilizationPercent;
+    });
+  }
+
+  /**
+   * All multisets of presets up to `maxFleetSize` containers, cheapest first.
+   */
+  private enumerateCandidates(presets: IContainerPreset[]): FleetCandidate[] {
+    const candidates: FleetCandidate[] = [];
+
+    const build = (startIndex: number, current: IContainerPreset[]) => {
+      if (current.length > 0) {
+        candidates.push({ presets: [...current], totalCost: this.getCost(current) });
+      }
+      if (current.length >= this.config.maxFleetSize) return;
+
+      for (let i = startIndex; i < presets.length; i++) {
+        current.push(presets[i]);
+        build(i, current);
+        current.pop();
+      }
+    };
+
+    build(0, []);
+
+    return candidates.sort((a, b) => {
+      if (a.totalCost !== b.totalCost) return a.totalCost - b.totalCost;
+      return a.presets.length - b.presets.length;
+    });
+  }
+
+  private hasCapacity(candidate: FleetCandidate, cargoVolume: number, cargoWeight: number): boolean {
+    const volume = candidate.presets.reduce(
+      (acc, p) => acc + calculateVolume(p.length, p.width, p.height),
+      0
+    );
+    if (volume < cargoVolume) return false;
+
+    // A max weight of 0 means the container has no configured limit.
+    const unlimited = candidate.presets.some((p) => p.maxWeight <= 0);
+    const payload = candidate.presets.reduce((acc, p) => acc + p.maxWeight, 0);
+    return unlimited || payload >= cargoWeight;
+  }
+
+  private getItemVolume(item: ICargoItem): number {
+    if (item.rollDimensions) {
+      const r = item.rollDimensions.diameter / 2;
+      return Math.PI * r * r * item.rollDimensions.length;
+    }
+    if (item.dimensions) {
+      return item.dimensions.length * item.dimensions.width * item.dimensions.height;
+    }
+    return 0;
+  }
+
+  private getCost(presets: IContainerPreset[]): number {
+    return presets.reduce((acc, p) => acc + (p.cost || 0), 0);
+  }
+
+  private getUtilization(result: IMultiLoadingResult): number {
+    let containerVolume = 0;
+    let usedVolume = 0;
+
+    for (const load of result.loads) {
+      const dims = load.container.dimensions;
+      containerVolume += dims.length * dims.width * dims.height;
+      usedVolume += load.result.placedItems.reduce(
+        (acc, p) => acc + p.dimensions.length * p.dimensions.width * p.dimensions.height,
+        0
+      );
+    }
+
+    return containerVolume > 0 ? (usedVolume / containerVolume) * 100 : 0;
+  }
+
+  /**
+   * Human readable fleet, e.g. "1×40HC + 1×20DC".
+   */
+  private getLabel(presets: IContainerPreset[]): string {
+    const counts = new Map<string, number>();
+    for (const preset of presets) {
+      const name = preset.isDefault ? preset.type : preset.name;
+      counts.set(name, (counts.get(name) || 0) + 1);
+    }
+    return Array.from(counts.entries())
+      .map(([name, count]) => `${count}×${name}`)
+      .join(' + ');
+  }
+}
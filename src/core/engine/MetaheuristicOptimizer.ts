@@ -0,0 +1,334 @@
+import type { ICargoItem, IContainer, ILoadingResult, ItemAxis, ProgressListener } from '../types';
+import type { OptimizationConfig } from '../../types/optimization';
+import { PackingEngine, type IPackingConfig } from './PackingEngine';
+import { OrientationRules } from '../math/OrientationRules';
+import { defaultStrategyRegistry, type StrategyRegistry } from '../strategies/StrategyRegistry';
+
+export type MetaheuristicAlgorithm = Extract<OptimizationConfig['algorithm'], 'genetic' | 'simulated_annealing'>;
+
+export interface IMetaheuristicConfig extends Pick<OptimizationConfig, 'maxIterations' | 'timeLimit'> {
+  algorithm: MetaheuristicAlgorithm;
+  /** Candidates per generation ('genetic'). */
+  populationSize: number;
+  /** Chance that a child is mutated after crossover ('genetic'). */
+  mutationRate: number;
+  /** Starting temperature in utilisation percentage points ('simulated_annealing'). */
+  initialTemperature: number;
+  /**
+   * Seed for the random number generator. Runs with the same seed and
+   * `maxIterations` return the same result unless `timeLimit` cuts them short.
+   */
+  seed: number;
+}
+
+/**
+ * A candidate solution. `order` lists unit indices in packing order;
+ * `axes[unit]` is 0 to leave the orientation to the strategy, or k to force
+ * the k-th entry of the unit's axis choices to point up.
+ */
+interface IGenome {
+  order: number[];
+  axes: number[];
+}
+
+interface IEvaluated {
+  genome: IGenome;
+  result: ILoadingResult;
+  fitness: number;
+}
+
+/**
+ * Searches over packing order and orientations with a genetic algorithm or
+ * simulated annealing. Candidates are decoded by `PackingEngine.runInOrder`,
+ * so every placement still goes through the regular strategies and checks.
+ * The greedy `PackingEngine.run` result is kept as the baseline and only
+ * replaced by a better candidate.
+ */
+export class MetaheuristicOptimizer {
+  private static readonly ELITE_COUNT = 2;
+  private static readonly TOURNAMENT_SIZE = 3;
+
+  private engine: PackingEngine;
+  private config: IMetaheuristicConfig;
+  private random: () => number = Math.random;
+  private units: ICargoItem[] = [];
+  private unitsById = new Map<string, ICargoItem>();
+  private axisChoices: ItemAxis[][] = [];
+  private evaluations = 0;
+  private bestPlaced = 0;
+  private progressListener?: ProgressListener;
+
+  constructor(
+    config?: Partial<IMetaheuristicConfig>,
+    packingConfig: Partial<IPackingConfig> = {},
+    registry: StrategyRegistry = defaultStrategyRegistry
+  ) {
+    this.engine = new PackingEngine(packingConfig, registry);
+    this.config = {
+      algorithm: 'genetic',
+      maxIterations: 200,
+      timeLimit: 15000,
+      populationSize: 16,
+      mutationRate: 0.3,
+      initialTemperature: 2,
+      seed: 1,
+      ...config
+    };
+  }
+
+  /**
+   * Receives the greedy run's progress, then one 'optimizing' update per
+   * candidate tried, with `placed` the most units any candidate has placed.
+   */
+  setProgressListener(listener?: ProgressListener): void {
+    this.progressListener = listener;
+  }
+
+  optimize(items: ICargoItem[], container: IContainer): ILoadingResult {
+    const startTime = performance.now();
+    const deadline = startTime + this.config.timeLimit;
+
+    this.engine.setProgressListener(this.progressListener);
+    const greedy = this.engine.run(items, container);
+    this.engine.setProgressListener(undefined);
+
+    this.random = createRandom(this.config.seed);
+    this.units = this.engine.expandItems(items);
+    this.unitsById = new Map(this.units.map((unit) => [unit.id, unit]));
+    this.axisChoices = this.units.map((unit) => this.getAxisChoices(unit));
+    this.evaluations = 0;
+    this.bestPlaced = greedy.placedItems.length;
+
+    let best = greedy;
+    if (this.units.length > 0 && this.canContinue(deadline)) {
+      const start = this.evaluate(this.getVolumeOrderGenome(), container);
+      const found = this.config.algorithm === 'genetic'
+        ? this.runGenetic(start, container, deadline)
+        : this.runAnnealing(start, container, startTime, deadline);
+
+      if (found.fitness > this.getFitness(greedy)) best = found.result;
+    }
+
+    return { ...best, executionTime: performance.now() - startTime };
+  }
+
+  private runGenetic(start: IEvaluated, container: IContainer, deadline: number): IEvaluated {
+    let population: IEvaluated[] = [start];
+    let best = start;
+
+    // Half perturbations of the greedy order, half random orders.
+    while (population.length < this.config.populationSize && this.canContinue(deadline)) {
+      const genome = population.length % 2 === 1
+        ? this.mutate(start.genome, 1 + Math.floor(this.random() * 4))
+        : this.getRandomGenome();
+      population.push(this.evaluate(genome, container));
+    }
+
+    while (this.canContinue(deadline)) {
+      population.sort((a, b) => b.fitness - a.fitness);
+      if (population[0].fitness > best.fitness) best = population[0];
+
+      const next = population.slice(0, MetaheuristicOptimizer.ELITE_COUNT);
+      while (next.length < population.length && this.canContinue(deadline)) {
+        let child = this.crossover(this.select(population).genome, this.select(population).genome);
+        if (this.random() < this.config.mutationRate) child = this.mutate(child, 1);
+
+        const evaluated = this.evaluate(child, container);
+        if (evaluated.fitness > best.fitness) best = evaluated;
+        next.push(evaluated);
+      }
+      population = next;
+    }
+
+    return best;
+  }
+
+  private runAnnealing(start: IEvaluated, container: IContainer, startTime: number, deadline: number): IEvaluated {
+    let current = start;
+    let best = start;
+
+    while (this.canContinue(deadline)) {
+      // Cool geometrically to 1% of the starting temperature, following
+      // whichever budget, iterations or time, is being used up faster.
+      const progress = Math.max(
+        this.evaluations / this.config.maxIterations,
+        (performance.now() - startTime) / this.config.timeLimit
+      );
+      const temperature = this.config.initialTemperature * Math.pow(0.01, Math.min(1, progress));
+
+      const candidate = this.evaluate(this.mutate(current.genome, 1), container);
+      const delta = candidate.fitness - current.fitness;
+      if (delta >= 0 || this.random() < Math.exp(delta / temperature)) {
+        current = candidate;
+      }
+      if (current.fitness > best.fitness) best = current;
+    }
+
+    return best;
+  }
+
+  private canContinue(deadline: number): boolean {
+    return this.evaluations < this.config.maxIterations && performance.now() < deadline;
+  }
+
+  private evaluate(genome: IGenome, container: IContainer): IEvaluated {
+    this.evaluations++;
+
+    const decoded = genome.order.map((index) => {
+      const unit = this.units[index];
+      const gene = genome.axes[index];
+      if (gene === 0) return unit;
+      return { ...unit, orientationRule: 'explicit' as const, allowedVerticalAxes: [this.axisChoices[index][gene - 1]] };
+    });
+
+    const result = this.engine.runInOrder(decoded, container);
+    this.bestPlaced = Math.max(this.bestPlaced, result.placedItems.length);
+    this.progressListener?.({
+      phase: 'optimizing',
+      placed: this.bestPlaced,
+      processed: this.evaluations,
+      total: this.config.maxIterations
+    });
+
+    // Report the units as given, not with the orientation forced by the gene.
+    const restored: ILoadingResult = {
+      ...result,
+      placedItems: result.placedItems.map((placed) => ({ ...placed, item: this.unitsById.get(placed.itemId)! })),
+      unplacedItems: result.unplacedItems.map((unplaced) => ({ ...unplaced, item: this.unitsById.get(unplaced.itemId)! }))
+    };
+
+    return { genome, result: restored, fitness: this.getFitness(restored) };
+  }
+
+  /**
+   * Utilisation first; among equal utilisation, more items placed wins.
+   */
+  private getFitness(result: ILoadingResult): number {
+    const total = result.placedItems.length + result.unplacedItems.length;
+    return result.utilizationPercent + (total > 0 ? (result.placedItems.length / total) * 0.001 : 0);
+  }
+
+  /**
+   * Vertical axes a gene can choose between. Items with a single allowed
+   * orientation get no choices and always keep gene 0.
+   */
+  private getAxisChoices(unit: ICargoItem): ItemAxis[] {
+    if (unit.type === 'roll') {
+      if (!unit.rollDimensions || unit.palletDimensions) return [];
+
+      const { diameter, length } = unit.rollDimensions;
+      const choices: ItemAxis[] = [];
+      if (OrientationRules.allowsRollOrientation(unit, 'vertical', diameter, length)) choices.push('length');
+      if (OrientationRules.allowsRollOrientation(unit, 'horizontal', diameter, length)) choices.push('width');
+      return choices.length > 1 ? choices : [];
+    }
+
+    if (unit.type === 'pallet') return [];
+
+    const axes = OrientationRules.getAllowedVerticalAxes(unit);
+    return axes.length > 1 ? axes : [];
+  }
+
+  private getVolumeOrderGenome(): IGenome {
+    const volumes = this.units.map((unit) => this.getUnitVolume(unit));
+    const order = this.units.map((_, index) => index).sort((a, b) => volumes[b] - volumes[a]);
+    return { order, axes: this.units.map(() => 0) };
+  }
+
+  private getRandomGenome(): IGenome {
+    const order = this.units.map((_, index) => index);
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+
+    const axes = this.axisChoices.map((choices) => Math.floor(this.random() * (choices.length + 1)));
+    return { order, axes };
+  }
+
+  private select(population: IEvaluated[]): IEvaluated {
+    let winner = population[Math.floor(this.random() * population.length)];
+    for (let i = 1; i < MetaheuristicOptimizer.TOURNAMENT_SIZE; i++) {
+      const contender = population[Math.floor(this.random() * population.length)];
+      if (contender.fitness > winner.fitness) winner = contender;
+    }
+    return winner;
+  }
+
+  /**
+   * Order crossover for the sequence: a slice of the first parent, the rest
+   * in the second parent's order. Orientation genes are taken per unit from
+   * either parent.
+   */
+  private crossover(first: IGenome, second: IGenome): IGenome {
+    const size = first.order.length;
+    const from = Math.floor(this.random() * size);
+    const to = from + Math.floor(this.random() * (size - from + 1));
+
+    const slice = first.order.slice(from, to);
+    const taken = new Set(slice);
+    const rest = second.order.filter((index) => !taken.has(index));
+    const order = [...rest.slice(0, from), ...slice, ...rest.slice(from)];
+
+    const axes = first.axes.map((gene, index) => (this.random() < 0.5 ? gene : second.axes[index]));
+    return { order, axes };
+  }
+
+  /**
+   * Applies `steps` random moves: swapping two units, moving one unit to
+   * another position, or changing one unit's orientation gene.
+   */
+  private mutate(genome: IGenome, steps: number): IGenome {
+    const order = [...genome.order];
+    const axes = [...genome.axes];
+    const orientable = this.axisChoices
+      .map((choices, index) => (choices.length > 0 ? index : -1))
+      .filter((index) => index !== -1);
+
+    for (let step = 0; step < steps; step++) {
+      const move = this.random();
+
+      if (move < 0.3 && orientable.length > 0) {
+        const unit = orientable[Math.floor(this.random() * orientable.length)];
+        const options = this.axisChoices[unit].length + 1;
+        axes[unit] = (axes[unit] + 1 + Math.floor(this.random() * (options - 1))) % options;
+      } else if (order.length > 1) {
+        const i = Math.floor(this.random() * order.length);
+        const j = Math.floor(this.random() * order.length);
+        if (move < 0.65) {
+          [order[i], order[j]] = [order[j], order[i]];
+        } else {
+          const [unit] = order.splice(i, 1);
+          order.splice(j, 0, unit);
+        }
+      }
+    }
+
+    return { order, axes };
+  }
+
+  private getUnitVolume(unit: ICargoItem): number {
+    if (unit.rollDimensions) {
+      const r = unit.rollDimensions.diameter / 2;
+      return Math.PI * r * r * unit.rollDimensions.length;
+    }
+    if (unit.dimensions) {
+      return unit.dimensions.length * unit.dimensions.width * unit.dimensions.height;
+    }
+    return 0;
+  }
+}
+
+/**
+ * Seeded uniform random numbers in [0, 1) (mulberry32).
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -1,45 +1,115 @@
-import type { ICargoItem, IContainer, ILoadingResult, IPlacedItem, IPackingContext } from '../types';
-import { BoxStrategy } from '../strategies/BoxStrategy';
-import { RollStrategy } from '../strategies/RollStrategy';
-import { PalletStrategy } from '../strategies/PalletStrategy';
-import type { IPackingStrategy } from '../strategies/IPackingStrategy';
+import type { ICargoItem, IContainer, ILoadingResult, IPlacedItem, IPackingContext, IUnplacedItem, IMultiLoadingResult, IContainerLoad, PackingPhase, ProgressListener } from '../types';
+import type { IPackingStrategy, IPlacementResult } from '../strategies/IPackingStrategy';
+import { defaultStrategyRegistry, type StrategyRegistry } from '../strategies/StrategyRegistry';
 import { PatternEvaluator } from '../math/PatternEvaluator';
 import { PrecisePlacer } from '../math/PrecisePlacer';
+import { BalanceAnalyzer, DEFAULT_BALANCE_TOLERANCE, type IBalanceTolerance } from '../math/BalanceAnalyzer';
+import { DeliverySequence } from '../math/DeliverySequence';
+import { SpatialIndex } from '../math/SpatialIndex';
+import { GeometryUtils } from '../math/GeometryUtils';
+import { LoadPlanValidator } from '../math/LoadPlanValidator';
+
+/**
+ * How items without a `weight` are treated by the payload check:
+ * - 'zero': the item counts as 0 kg and is always within the limit
+ * - 'reject': the run is refused before anything is placed
+ */
+export type MissingWeightPolicy = 'zero' | 'reject';
 
 export interface IPackingConfig {
   enablePatternPacking: boolean;
   maxPatternGenerationTime: number;
   minItemsForPatterns: number;
+  enforceWeightLimit: boolean;
+  missingWeightPolicy: MissingWeightPolicy;
+  maxContainers: number;
+  /**
+   * Choose, among the first few valid positions for each item, the one that
+   * keeps the centre of gravity closest to `balanceTolerance`. Groups laid
+   * out by pattern packing keep their pattern positions.
+   */
+  preferBalancedPlacement: boolean;
+  balanceTolerance: IBalanceTolerance;
+  /**
+   * Place fragile items after everything else so they end up on top of the
+   * load rather than taking floor space others could have stacked on.
+   */
+  loadFragileLast: boolean;
+  /**
+   * Strategy name per cargo type, overriding the registry's defaults.
+   * Names must be registered in the registry the engine was created with.
+   * Types packed by an override skip layer-pattern packing, so the
+   * override places every unit.
+   */
+  strategies: Partial<Record<string, string>>;
 }
 
 export class PackingEngine {
-  private boxStrategy: IPackingStrategy;
-  private rollStrategy: IPackingStrategy;
-  private palletStrategy: IPackingStrategy;
-  private config: IPackingConfig;
+  private static readonly BALANCE_CANDIDATES = 8;
 
-  constructor(config?: Partial<IPackingConfig>) {
-    this.boxStrategy = new BoxStrategy();
-    this.rollStrategy = new RollStrategy();
-    this.palletStrategy = new PalletStrategy();
+  private registry: StrategyRegistry;
+  private strategies = new Map<string, IPackingStrategy>();
+  private config: IPackingConfig;
+  private progressListener?: ProgressListener;
+  // Progress covers the whole run rather than one container: units placed
+  // in earlier containers count towards it. Units a container rejects are
+  // tried again in the next one, so multi-container runs only count placed
+  // units as processed.
+  private progressRun = { placedBefore: 0, total: 0, countPlacedOnly: false };
+
+  constructor(config?: Partial<IPackingConfig>, registry: StrategyRegistry = defaultStrategyRegistry) {
+    this.registry = registry;
     this.config = {
       enablePatternPacking: true,
       maxPatternGenerationTime: 3000,
       minItemsForPatterns: 5,
+      enforceWeightLimit: true,
+      missingWeightPolicy: 'zero',
+      maxContainers: 20,
+      preferBalancedPlacement: false,
+      balanceTolerance: DEFAULT_BALANCE_TOLERANCE,
+      loadFragileLast: false,
+      strategies: {},
       ...config
     };
   }
 
+  /**
+   * Receives progress while `run`, `runInOrder` and `runMultiContainer`
+   * pack. Called for every unit, so listeners should throttle expensive work.
+   */
+  setProgressListener(listener?: ProgressListener): void {
+    this.progressListener = listener;
+  }
+
+  private reportProgress(phase: PackingPhase, placed: number, processed: number): void {
+    const { placedBefore, total, countPlacedOnly } = this.progressRun;
+    this.progressListener?.({
+      phase,
+      placed: placedBefore + placed,
+      processed: placedBefore + (countPlacedOnly ? placed : processed),
+      total
+    });
+  }
+
   private getStrategy(type: string): IPackingStrategy {
-    switch (type) {
-      case 'box':
-        return this.boxStrategy;
-      case 'roll':
-        return this.rollStrategy;
-      case 'pallet':
-        return this.palletStrategy;
-      default:
-        return this.boxStrategy;
+    const name = this.registry.resolve(type, this.config.strategies);
+
+    let strategy = this.strategies.get(name);
+    if (!strategy) {
+      strategy = this.registry.create(name);
+      this.strategies.set(name, strategy);
+    }
+    return strategy;
+  }
+
+  private hasStrategyOverride(type: string): boolean {
+    return this.registry.resolve(type, this.config.strategies) !== this.registry.resolve(type);
+  }
+
+  private assertStrategiesAvailable(items: ICargoItem[]): void {
+    for (const type of new Set(items.map((item) => item.type))) {
+      this.getStrategy(type);
     }
   }
 
@@ -69,11 +139,31 @@ export class PackingEngine {
     return item;
   }
 
-  run(items: ICargoItem[], container: IContainer): ILoadingResult {
-    const startTime = performance.now();
-    const placedItems: IPlacedItem[] = [];
-    const unplacedItems: ICargoItem[] = [];
+  /**
+   * Remaining payload for the container. A `maxWeight` of 0 means the
+   * container has no configured limit (the database default).
+   */
+  private getPayloadLimit(container: IContainer): number {
+    if (!this.config.enforceWeightLimit || container.maxWeight <= 0) {
+      return Infinity;
+    }
+    return container.maxWeight;
+  }
+
+  private assertWeightsPresent(items: ICargoItem[]): void {
+    if (this.config.missingWeightPolicy !== 'reject') return;
 
+    const missing = items.filter((item) => item.weight === undefined || item.weight === null);
+    if (missing.length > 0) {
+      const names = missing.map((item) => item.name).join(', ');
+      throw new Error(`Cannot check payload: no weight set for ${names}`);
+    }
+  }
+
+  /**
+   * One unit per piece, with ids `<item id>-<index>`.
+   */
+  expandItems(items: ICargoItem[]): ICargoItem[] {
     const expandedItems: ICargoItem[] = [];
     for (const item of items) {
       for (let i = 0; i < item.quantity; i++) {
@@ -85,8 +175,97 @@ export class PackingEngine {
         });
       }
     }
+    return expandedItems;
+  }
+
+  run(items: ICargoItem[], container: IContainer): ILoadingResult {
+    this.assertStrategiesAvailable(items);
+    this.assertWeightsPresent(items);
+
+    const units = this.expandItems(items);
+    this.progressRun = { placedBefore: 0, total: units.length, countPlacedOnly: false };
+    return this.packItems(units, container);
+  }
+
+  /**
+   * Packs units from `expandItems` one at a time in exactly the given order,
+   * without pattern packing. Delivery stops and `loadFragileLast` still take
+   * precedence over the order. Used as the decoder by search-based optimisers.
+   */
+  runInOrder(units: ICargoItem[], container: IContainer): ILoadingResult {
+    this.assertStrategiesAvailable(units);
+    this.assertWeightsPresent(units);
+
+    this.progressRun = { placedBefore: 0, total: units.length, countPlacedOnly: false };
+    return this.packItems(units, container, true);
+  }
+
+  /**
+   * Packs the shipment into as many containers as needed. Containers are
+   * opened in the order of `containerSequence`; once the sequence is
+   * exhausted its last entry is repeated, up to `maxContainers`.
+   */
+  runMultiContainer(items: ICargoItem[], containerSequence: IContainer[]): IMultiLoadingResult {
+    if (containerSequence.length === 0) {
+      throw new Error('At least one container is required');
+    }
 
-    const sortedItems = expandedItems.sort((a, b) => {
+    const startTime = performance.now();
+    this.assertStrategiesAvailable(items);
+    this.assertWeightsPresent(items);
+
+    const loads: IContainerLoad[] = [];
+    let remaining = this.expandItems(items);
+    let unplacedItems: IUnplacedItem[] = [];
+    const total = remaining.length;
+
+    while (remaining.length > 0 && loads.length < this.config.maxContainers) {
+      const container = containerSequence[Math.min(loads.length, containerSequence.length - 1)];
+      this.progressRun = { placedBefore: total - remaining.length, total, countPlacedOnly: true };
+      const result = this.packItems(remaining, container);
+      unplacedItems = result.unplacedItems;
+
+      // Nothing fits into an empty container, so another one will not help.
+      if (result.placedItems.length === 0) break;
+
+      loads.push({ container, result: { ...result, unplacedItems: [] } });
+      remaining = result.unplacedItems.map((unplaced) => unplaced.item);
+    }
+
+    if (remaining.length === 0) {
+      unplacedItems = [];
+    }
+
+    return {
+      loads,
+      unplacedItems,
+      totalContainersNeeded: loads.length,
+      totalWeight: loads.reduce((acc, load) => acc + load.result.totalWeight, 0),
+      executionTime: performance.now() - startTime,
+    };
+  }
+
+  private packItems(expandedItems: ICargoItem[], container: IContainer, preserveOrder = false): ILoadingResult {
+    const startTime = performance.now();
+    const placedItems: IPlacedItem[] = [];
+    const unplacedItems: IUnplacedItem[] = [];
+
+    const payloadLimit = this.getPayloadLimit(container);
+    let loadedWeight = 0;
+
+    // Multi-drop loads are built stop by stop from the front wall, last stop
+    // first, so each stop's goods end up between the next stop and the door.
+    const usesStops = DeliverySequence.usesStops(expandedItems);
+
+    const sortedItems = [...expandedItems].sort((a, b) => {
+        if (usesStops) {
+            const stopDiff = DeliverySequence.getStop(b) - DeliverySequence.getStop(a);
+            if (stopDiff !== 0 && !isNaN(stopDiff)) return stopDiff;
+        }
+        if (this.config.loadFragileLast && Boolean(a.fragile) !== Boolean(b.fragile)) {
+            return a.fragile ? 1 : -1;
+        }
+        if (preserveOrder) return 0;
         const getVol = (i: ICargoItem) => {
             if (i.rollDimensions) {
                 const r = i.rollDimensions.diameter / 2;
@@ -100,62 +279,171 @@ export class PackingEngine {
         return getVol(b) - getVol(a);
     });
 
-    const itemGroups = this.groupIdenticalItems(sortedItems);
+    let processed = 0;
+    this.reportProgress('placing', 0, 0);
+
+    const itemGroups = preserveOrder
+      ? sortedItems.map((item) => ({ key: item.id, items: [item] }))
+      : this.groupIdenticalItems(sortedItems);
 
     for (const group of itemGroups) {
+      let groupItems = group.items;
       const isPalletizedGroup = group.items[0].isPalletized;
-      const shouldUsePatternPacking = this.config.enablePatternPacking &&
+      const shouldUsePatternPacking = this.config.enablePatternPacking && !preserveOrder &&
         (group.items[0].type === 'pallet' || group.items[0].type === 'box') &&
+        !this.hasStrategyOverride(group.items[0].type) &&
         (isPalletizedGroup || group.items.length >= this.config.minItemsForPatterns);
 
       if (shouldUsePatternPacking) {
-        const patternResult = this.tryPatternPackingForGroup(group.items, container, placedItems);
+        this.reportProgress('patterns', placedItems.length, processed);
+        const patternResult = this.tryPatternPackingForGroup(
+          group.items,
+          container,
+          placedItems,
+          payloadLimit - loadedWeight
+        );
 
         if (patternResult.placed.length > 0) {
           placedItems.push(...patternResult.placed);
-          unplacedItems.push(...patternResult.remaining);
-          continue;
+          loadedWeight += patternResult.placed.reduce((acc, p) => acc + (p.item.weight || 0), 0);
+          processed += patternResult.placed.length;
+          this.reportProgress('placing', placedItems.length, processed);
+
+          // Units the pattern had no slot for may still fit in the gaps it
+          // leaves: the side strip, the door end or above the top layer.
+          groupItems = patternResult.remaining.map((unplaced) => unplaced.item);
         }
       }
 
-      for (const item of group.items) {
+      // Units of a group are identical and nothing is placed after one
+      // fails, so the rest of the group fails the same way.
+      let groupRejection: Pick<IUnplacedItem, 'reason' | 'check'> | null = null;
+
+      for (const item of groupItems) {
+        processed++;
+
+        if (groupRejection) {
+          unplacedItems.push({ itemId: item.id, item, ...groupRejection });
+          this.reportProgress('placing', placedItems.length, processed);
+          continue;
+        }
+
+        const itemWeight = item.weight || 0;
+        if (loadedWeight + itemWeight > payloadLimit) {
+          groupRejection = { reason: 'weight_limit_exceeded', check: 'payload' };
+          unplacedItems.push({ itemId: item.id, item, ...groupRejection });
+          this.reportProgress('placing', placedItems.length, processed);
+          continue;
+        }
+
         const strategy = this.getStrategy(item.type);
 
         const context: IPackingContext = {
           container,
           placedItems,
-          activeLayer: { zStart: 0, zEnd: 0, occupiedSpaces: [] }
+          spatialIndex: SpatialIndex.for(placedItems),
+          activeLayer: { zStart: 0, zEnd: 0, occupiedSpaces: [] },
+          fillOrder: usesStops ? 'wall' : 'floor',
+          respectDeliveryOrder: usesStops
         };
 
-        const result = strategy.findBestPosition(item, context);
+        // If the item only fits where it blocks another stop, load it anyway;
+        // the conflict is reported in `sequenceConflicts`.
+        const result = this.findPlacement(item, strategy, context) ??
+          (usesStops ? this.findPlacement(item, strategy, { ...context, respectDeliveryOrder: false }) : null);
 
-        if (result && result.dimensions) {
+        if (result) {
           placedItems.push({
             itemId: item.id,
             item: item,
             position: result.position,
             rotation: result.rotation,
             dimensions: result.dimensions,
-            orientation: (result as any).orientation || 'horizontal'
+            orientation: result.orientation || 'horizontal'
           });
+          loadedWeight += itemWeight;
         } else {
-          unplacedItems.push(item);
+          const rejection = strategy.getLastRejection();
+          groupRejection = { reason: rejection?.reason ?? 'unknown', check: rejection?.check };
+          unplacedItems.push({ itemId: item.id, item, ...groupRejection });
         }
+        this.reportProgress('placing', placedItems.length, processed);
       }
     }
 
+    this.reportProgress('finishing', placedItems.length, processed);
     const endTime = performance.now();
 
     const containerVol = container.dimensions.length * container.dimensions.width * container.dimensions.height;
     const itemsVol = placedItems.reduce((acc, p) => acc + (p.dimensions.length * p.dimensions.width * p.dimensions.height), 0);
 
-    return {
+    const result: ILoadingResult = {
       placedItems,
       unplacedItems,
       utilizationPercent: containerVol > 0 ? (itemsVol / containerVol) * 100 : 0,
-      totalWeight: placedItems.reduce((acc, p) => acc + (p.item.weight || 0), 0),
+      totalWeight: loadedWeight,
       executionTime: endTime - startTime,
+      weightDistribution: BalanceAnalyzer.analyze(placedItems, container, this.config.balanceTolerance),
+      loadingSequence: DeliverySequence.buildLoadingSequence(placedItems),
+      sequenceConflicts: DeliverySequence.findConflicts(placedItems),
     };
+
+    // Development builds double-check every plan; the strategies and the
+    // validator must agree on what a valid load is.
+    if (import.meta.env?.DEV) {
+      const violations = LoadPlanValidator.validate(result, container);
+      if (violations.length > 0) {
+        console.warn(`Load plan for ${container.name} has ${violations.length} violation(s)`, violations);
+      }
+    }
+
+    return result;
+  }
+
+  private findPlacement(item: ICargoItem, strategy: IPackingStrategy, context: IPackingContext): IPlacementResult | null {
+    if (!this.config.preferBalancedPlacement) {
+      return strategy.findBestPosition(item, context);
+    }
+
+    return this.pickBalancedPlacement(
+      item,
+      strategy.findCandidatePositions(item, context, PackingEngine.BALANCE_CANDIDATES),
+      context.placedItems,
+      context.container
+    );
+  }
+
+  /**
+   * Keeps the strategy's first choice while the centre of gravity stays in
+   * tolerance; otherwise takes the candidate that brings it back furthest.
+   */
+  private pickBalancedPlacement(
+    item: ICargoItem,
+    candidates: IPlacementResult[],
+    placedItems: IPlacedItem[],
+    container: IContainer
+  ): IPlacementResult | null {
+    if (candidates.length <= 1 || !item.weight) return candidates[0] ?? null;
+
+    let best = candidates[0];
+    let bestExcess = Infinity;
+
+    for (const candidate of candidates) {
+      const cog = BalanceAnalyzer.calculateCenterOfGravity([
+        ...placedItems,
+        { itemId: item.id, item, position: candidate.position, rotation: candidate.rotation, dimensions: candidate.dimensions }
+      ]);
+      if (!cog) return candidates[0];
+
+      const excess = BalanceAnalyzer.getToleranceExcess(cog, container, this.config.balanceTolerance);
+      if (excess < bestExcess) {
+        best = candidate;
+        bestExcess = excess;
+      }
+      if (excess === 0) break;
+    }
+
+    return best;
   }
 
   private groupIdenticalItems(items: ICargoItem[]): Array<{ key: string; items: ICargoItem[] }> {
@@ -179,14 +467,15 @@ export class PackingEngine {
     const palletDims = item.palletDimensions;
     const rollDims = item.rollDimensions;
 
-    return `${item.type}-${dims?.length}-${dims?.width}-${dims?.height}-${palletDims?.length}-${palletDims?.width}-${palletDims?.height}-${rollDims?.diameter}-${rollDims?.length}-${item.isPalletized}`;
+    return `${item.type}-${item.weight ?? 0}-${dims?.length}-${dims?.width}-${dims?.height}-${palletDims?.length}-${palletDims?.width}-${palletDims?.height}-${rollDims?.diameter}-${rollDims?.length}-${item.isPalletized}-${Boolean(item.doubleStackable)}-${Boolean(item.fragile)}-${item.stackable !== false}-${item.maxLoadOnTop}-${item.maxStackTiers}-${item.orientationRule}-${item.allowedVerticalAxes?.join('/')}-${item.deliveryStop}`;
   }
 
   private tryPatternPackingForGroup(
     items: ICargoItem[],
     container: IContainer,
-    existingPlaced: IPlacedItem[]
-  ): { placed: IPlacedItem[]; remaining: ICargoItem[] } {
+    existingPlaced: IPlacedItem[],
+    weightBudget: number
+  ): { placed: IPlacedItem[]; remaining: IUnplacedItem[] } {
     if (items.length === 0) return { placed: [], remaining: [] };
 
     const itemType = items[0].type;
@@ -209,14 +498,26 @@ export class PackingEngine {
     }
 
     if (!evaluation || evaluation.slots.length === 0) {
-      return { placed: [], remaining: items };
+      return {
+        placed: [],
+        remaining: items.map((item) => ({ itemId: item.id, item, reason: 'insufficient_space' as const, check: 'bounds' as const }))
+      };
     }
 
+    // Patterns are laid out in the empty container. Slots an obstacle
+    // reaches into are dropped, with every slot stacked above them.
+    const slots = evaluation.slots.filter((slot) => !GeometryUtils.intersectsObstacle(
+      { ...slot.position, y: 0 },
+      { ...slot.dimensions, height: slot.position.y + slot.dimensions.height },
+      container
+    ));
+
     return PrecisePlacer.placeItemsFromSlots(
       items,
-      evaluation.slots,
+      slots,
       container,
-      existingPlaced
+      existingPlaced,
+      weightBudget
     );
   }
 }
@@ -0,0 +1,199 @@
+import type { IBuiltPallet, ICargoItem, IContainer, IPalletizationResult, IPalletType, IPlacedItem } from '../types';
+import type { PalletizationConfig } from '../../types/pallet';
+import { PackingEngine, type IPackingConfig } from './PackingEngine';
+import { defaultStrategyRegistry, type StrategyRegistry } from '../strategies/StrategyRegistry';
+import { isLooseCarton } from '../constants/pallets';
+
+export interface IPalletizerConfig extends Pick<PalletizationConfig, 'allowMixedItems'> {
+  pallet: IPalletType;
+  /** Highest a built pallet may stand, deck included, in metres. */
+  maxStackHeight: number;
+  /** Whether built pallets may be double-stacked in the container. */
+  doubleStackable: boolean;
+}
+
+/**
+ * Builds pallets from loose cartons, so they can be loaded as palletized
+ * units. Each pallet deck is packed like a small container by
+ * `PackingEngine`: cartons get the same layer patterns, support checks,
+ * stacking limits and orientation rules as in a container, and the
+ * pallet's `maxLoad` is the payload.
+ *
+ * Only loose cartons are built onto pallets; every other item is passed
+ * through unchanged. Without `allowMixedItems` every pallet carries one
+ * kind of carton. With it, cartons are mixed freely but never across
+ * delivery stops.
+ *
+ * With `doubleStackable`, a pallet is double-stackable when all of its
+ * cartons may carry weight without limits; the load limits of single
+ * cartons say nothing about what a whole pallet on top would do to them.
+ */
+export class Palletizer {
+  private config: IPalletizerConfig;
+  private packingConfig: Partial<IPackingConfig>;
+  private registry: StrategyRegistry;
+
+  constructor(
+    config: IPalletizerConfig,
+    packingConfig: Partial<IPackingConfig> = {},
+    registry: StrategyRegistry = defaultStrategyRegistry
+  ) {
+    this.config = config;
+    this.packingConfig = packingConfig;
+    this.registry = registry;
+  }
+
+  palletize(items: ICargoItem[]): IPalletizationResult {
+    const startTime = performance.now();
+    const { pallet, maxStackHeight } = this.config;
+
+    const deck: IContainer = {
+      id: `pallet-${pallet.id}`,
+      name: pallet.name,
+      dimensions: {
+        length: pallet.dimensions.length,
+        width: pallet.dimensions.width,
+        height: maxStackHeight - pallet.dimensions.height
+      },
+      maxWeight: pallet.maxLoad
+    };
+    if (deck.dimensions.height <= 0) {
+      throw new Error(`The stack height must be above the ${pallet.name} deck`);
+    }
+
+    const cartons = items.filter(isLooseCarton);
+    const pallets: IBuiltPallet[] = [];
+    const palletsBySignature = new Map<string, IBuiltPallet>();
+    const looseCounts = new Map<ICargoItem, number>();
+    let palletCount = 0;
+
+    for (const group of this.groupCartons(cartons)) {
+      // The engine names units `<item id>-<index>`.
+      const owners = new Map<string, ICargoItem>();
+      for (const item of group) {
+        for (let i = 0; i < item.quantity; i++) {
+          owners.set(`${item.id}-${i}`, item);
+        }
+      }
+
+      const engine = new PackingEngine(
+        { ...this.packingConfig, enforceWeightLimit: true, maxContainers: owners.size },
+        this.registry
+      );
+      const result = engine.runMultiContainer(group, [deck]);
+
+      for (const load of result.loads) {
+        const built = this.buildPallet(load.result.placedItems, owners);
+        const signature = this.getSignature(built);
+        const existing = palletsBySignature.get(signature);
+
+        if (existing) {
+          existing.cargo.quantity++;
+        } else {
+          built.cargo.id = `pallet-${pallets.length + 1}`;
+          pallets.push(built);
+          palletsBySignature.set(signature, built);
+        }
+        palletCount++;
+      }
+
+      for (const unplaced of result.unplacedItems) {
+        const owner = owners.get(unplaced.itemId)!;
+        looseCounts.set(owner, (looseCounts.get(owner) ?? 0) + 1);
+      }
+    }
+
+    const looseItems = Array.from(looseCounts, ([item, quantity]) => ({ ...item, quantity }));
+
+    return {
+      items: [
+        ...items.filter((item) => !isLooseCarton(item)),
+        ...pallets.map((built) => built.cargo),
+        ...looseItems
+      ],
+      pallets,
+      palletCount,
+      cartonCount: cartons.reduce((acc, item) => acc + item.quantity, 0) -
+        looseItems.reduce((acc, item) => acc + item.quantity, 0),
+      executionTime: performance.now() - startTime
+    };
+  }
+
+  private groupCartons(cartons: ICargoItem[]): ICargoItem[][] {
+    if (!this.config.allowMixedItems) {
+      return cartons.map((item) => [item]);
+    }
+
+    const byStop = new Map<number | undefined, ICargoItem[]>();
+    for (const item of cartons) {
+      const group = byStop.get(item.deliveryStop);
+      if (group) {
+        group.push(item);
+      } else {
+        byStop.set(item.deliveryStop, [item]);
+      }
+    }
+    return Array.from(byStop.values());
+  }
+
+  private buildPallet(contents: IPlacedItem[], owners: Map<string, ICargoItem>): IBuiltPallet {
+    const { pallet } = this.config;
+    const counts = new Map<ICargoItem, number>();
+    let length = 0;
+    let width = 0;
+    let height = 0;
+    let cartonWeight = 0;
+
+    for (const placed of contents) {
+      const owner = owners.get(placed.itemId)!;
+      counts.set(owner, (counts.get(owner) ?? 0) + 1);
+      length = Math.max(length, placed.position.x + placed.dimensions.length);
+      width = Math.max(width, placed.position.z + placed.dimensions.width);
+      height = Math.max(height, placed.position.y + placed.dimensions.height);
+      cartonWeight += placed.item.weight || 0;
+    }
+
+    const kinds = Array.from(counts.keys());
+    const name = kinds.length === 1
+      ? `${kinds[0].name} ×${contents.length} on ${pallet.name}`
+      : `Mixed: ${contents.length} cartons on ${pallet.name}`;
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+
+    return {
+      cargo: {
+        id: '',
+        type: 'box',
+        name,
+        quantity: 1,
+        weight: cartonWeight + pallet.weight,
+        dimensions: { length: round(length), width: round(width), height: round(height) },
+        isPalletized: true,
+        palletDimensions: { ...pallet.dimensions },
+        fragile: kinds.some((item) => item.fragile) || undefined,
+        doubleStackable: (this.config.doubleStackable && kinds.every((item) => this.canCarryPallet(item))) || undefined,
+        deliveryStop: kinds[0].deliveryStop,
+        color: kinds.length === 1 ? kinds[0].color : undefined
+      },
+      contents,
+      cartons: kinds.map((item) => ({ itemId: item.id, name: item.name, count: counts.get(item)! }))
+    };
+  }
+
+  private canCarryPallet(carton: ICargoItem): boolean {
+    return !carton.fragile && carton.stackable !== false &&
+      carton.maxLoadOnTop === undefined && carton.maxStackTiers === undefined;
+  }
+
+  /**
+   * Pallets with the same cartons and outer size are one loading unit,
+   * whatever the layout on the deck.
+   */
+  private getSignature(built: IBuiltPallet): string {
+    const { dimensions, weight } = built.cargo;
+    const cartons = built.cartons
+      .map((carton) => `${carton.itemId}:${carton.count}`)
+      .sort()
+      .join(',');
+    return `${cartons}|${dimensions!.length.toFixed(3)}|${dimensions!.width.toFixed(3)}|${dimensions!.height.toFixed(3)}|${weight}`;
+  }
+}
@@ -1,7 +1,31 @@
-import type { ICargoItem, IContainer, ILoadingResult } from '../types';
+import type { ICargoItem, IContainer, IContainerPreset, ILoadingResult, IMultiLoadingResult, IPalletizationResult, ProgressListener } from '../types';
+import type { IPackingConfig } from './PackingEngine';
+import type { IFleetOption } from './FleetRecommender';
+import type { IMetaheuristicConfig } from './MetaheuristicOptimizer';
+import type { IPalletizerConfig } from './Palletizer';
 
+/**
+ * Rejection of a request that was cancelled or replaced by a newer one.
+ */
+export class CalculationCancelledError extends Error {
+  constructor() {
+    super('Calculation cancelled');
+    this.name = 'CalculationCancelledError';
+  }
+}
+
+/**
+ * Runs one request at a time on the packing worker. Starting a request
+ * cancels the one in progress.
+ *
+ * Runs are synchronous inside the worker, which only reads its next message
+ * once the current run has finished; a run is therefore cancelled by
+ * terminating the worker, and a new one is created for the next request.
+ */
 export class WorkerHandler {
   private worker: Worker | null = null;
+  private pending: { reject: (error: Error) => void } | null = null;
+  private nextRunId = 1;
 
   initialize() {
     this.worker = new Worker(
@@ -12,8 +36,70 @@ export class WorkerHandler {
 
   startPacking(
     items: ICargoItem[],
-    container: IContainer
+    container: IContainer,
+    config?: Partial<IPackingConfig>,
+    onProgress?: ProgressListener
+  ): Promise<ILoadingResult> {
+    return this.request('START_PACKING', 'PACKING_COMPLETE', { items, container, config }, onProgress);
+  }
+
+  startMultiPacking(
+    items: ICargoItem[],
+    containers: IContainer[],
+    config?: Partial<IPackingConfig>,
+    onProgress?: ProgressListener
+  ): Promise<IMultiLoadingResult> {
+    return this.request('START_MULTI_PACKING', 'MULTI_PACKING_COMPLETE', { items, containers, config }, onProgress);
+  }
+
+  startFleetRecommendation(
+    items: ICargoItem[],
+    presets: IContainerPreset[],
+    config?: Partial<IPackingConfig>
+  ): Promise<IFleetOption[]> {
+    return this.request('START_FLEET_RECOMMENDATION', 'FLEET_RECOMMENDATION_COMPLETE', { items, presets, config });
+  }
+
+  startOptimization(
+    items: ICargoItem[],
+    container: IContainer,
+    config?: Partial<IPackingConfig>,
+    optimizerConfig?: Partial<IMetaheuristicConfig>,
+    onProgress?: ProgressListener
   ): Promise<ILoadingResult> {
+    return this.request(
+      'START_OPTIMIZATION',
+      'OPTIMIZATION_COMPLETE',
+      { items, container, config, optimizerConfig },
+      onProgress
+    );
+  }
+
+  startPalletization(
+    items: ICargoItem[],
+    palletizerConfig: IPalletizerConfig,
+    config?: Partial<IPackingConfig>
+  ): Promise<IPalletizationResult> {
+    return this.request('START_PALLETIZATION', 'PALLETIZATION_COMPLETE', { items, palletizerConfig, config });
+  }
+
+  /**
+   * Stops the request in progress, if any. Its promise rejects with
+   * `CalculationCancelledError`.
+   */
+  cancel() {
+    const pending = this.pending;
+    if (!pending) return;
+
+    this.pending = null;
+    this.worker?.terminate();
+    this.worker = null;
+    pending.reject(new CalculationCancelledError());
+  }
+
+  private request<T>(type: string, completeType: string, payload: unknown, onProgress?: ProgressListener): Promise<T> {
+    this.cancel();
+
     return new Promise((resolve, reject) => {
       if (!this.worker) {
         this.initialize();
@@ -24,24 +110,34 @@ export class WorkerHandler {
         return;
       }
 
+      const runId = this.nextRunId++;
+      this.pending = { reject };
+
       this.worker.onmessage = (event) => {
-        if (event.data.type === 'PACKING_COMPLETE') {
+        if (event.data.runId !== runId) return;
+
+        if (event.data.type === 'PROGRESS') {
+          onProgress?.(event.data.payload);
+        } else if (event.data.type === completeType) {
+          this.pending = null;
           resolve(event.data.payload);
+        } else if (event.data.type === 'PACKING_ERROR') {
+          this.pending = null;
+          reject(new Error(event.data.payload.message));
         }
       };
 
-      this.worker.onerror = (error) => {
-        reject(error);
+      this.worker.onerror = (event) => {
+        this.pending = null;
+        reject(new Error(event.message));
       };
 
-      this.worker.postMessage({
-        type: 'START_PACKING',
-        payload: { items, container },
-      });
+      this.worker.postMessage({ type, runId, payload });
     });
   }
 
   terminate() {
+    this.cancel();
     if (this.worker) {
       this.worker.terminate();
       this.worker = null;
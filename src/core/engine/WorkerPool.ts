@@ -0,0 +1,107 @@
+import type { ICargoItem, IContainer, ILoadingResult } from '../types';
+import type { IPackingConfig } from './PackingEngine';
+import { CalculationCancelledError, WorkerHandler } from './WorkerHandler';
+
+/**
+ * One what-if: the shipment packed into `container` with `config`.
+ */
+export interface IScenario {
+  id: string;
+  label: string;
+  container: IContainer;
+  config?: Partial<IPackingConfig>;
+}
+
+export interface IScenarioResult {
+  scenario: IScenario;
+  /** Missing when the run failed; `error` says why. */
+  result?: ILoadingResult;
+  error?: string;
+}
+
+/**
+ * Packing workers that evaluate scenarios side by side, one per core.
+ * Each worker takes the next scenario as soon as it is free.
+ */
+export class WorkerPool {
+  // Every worker holds its own copy of the engine and the shipment.
+  private static readonly MAX_WORKERS = 8;
+
+  private handlers: WorkerHandler[];
+  // Bumped on cancel, so workers of a cancelled evaluation stop taking
+  // scenarios even if their last run finished just before the cancel.
+  private generation = 0;
+
+  constructor(size = WorkerPool.getDefaultSize()) {
+    this.handlers = Array.from({ length: Math.max(1, size) }, () => new WorkerHandler());
+  }
+
+  static getDefaultSize(): number {
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : 0;
+    return Math.min(WorkerPool.MAX_WORKERS, Math.max(1, cores || 2));
+  }
+
+  get size(): number {
+    return this.handlers.length;
+  }
+
+  /**
+   * Packs `items` once per scenario and returns the results best first:
+   * most units placed, then highest utilisation. Failed scenarios come
+   * last. Starting an evaluation cancels the one in progress, which then
+   * rejects with `CalculationCancelledError`.
+   */
+  async evaluate(
+    items: ICargoItem[],
+    scenarios: IScenario[],
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<IScenarioResult[]> {
+    this.cancel();
+    const generation = this.generation;
+
+    const results: IScenarioResult[] = [];
+    let next = 0;
+
+    const work = async (handler: WorkerHandler) => {
+      while (next < scenarios.length && generation === this.generation) {
+        const scenario = scenarios[next++];
+        try {
+          const result = await handler.startPacking(items, scenario.container, scenario.config);
+          results.push({ scenario, result });
+        } catch (error) {
+          if (error instanceof CalculationCancelledError) throw error;
+          results.push({ scenario, error: error instanceof Error ? error.message : String(error) });
+        }
+        onProgress?.(results.length, scenarios.length);
+      }
+    };
+
+    await Promise.all(this.handlers.slice(0, scenarios.length).map(work));
+    if (generation !== this.generation) throw new CalculationCancelledError();
+
+    return results.sort((a, b) => this.compare(a, b));
+  }
+
+  cancel() {
+    this.generation++;
+    for (const handler of this.handlers) {
+      handler.cancel();
+    }
+  }
+
+  terminate() {
+    for (const handler of this.handlers) {
+      handler.terminate();
+    }
+  }
+
+  private compare(a: IScenarioResult, b: IScenarioResult): number {
+    if (!a.result || !b.result) {
+      return Number(!a.result) - Number(!b.result);
+    }
+    if (a.result.placedItems.length !== b.result.placedItems.length) {
+      return b.result.placedItems.length - a.result.placedItems.length;
+    }
+    return b.result.utilizationPercent - a.result.utilizationPercent;
+  }
+}
@@ -1,24 +1,146 @@
-import { PackingEngine } from './PackingEngine';
-import type { ICargoItem, IContainer, ILoadingResult } from '../types';
-
-interface WorkerMessage {
-  type: 'START_PACKING';
-  payload: {
-    items: ICargoItem[];
-    container: IContainer;
+import { PackingEngine, type IPackingConfig } from './PackingEngine';
+import { FleetRecommender, type IFleetOption } from './FleetRecommender';
+import { MetaheuristicOptimizer, type IMetaheuristicConfig } from './MetaheuristicOptimizer';
+import { Palletizer, type IPalletizerConfig } from './Palletizer';
+import { defaultStrategyRegistry } from '../strategies/StrategyRegistry';
+import type { ICargoItem, IContainer, IContainerPreset, ILoadingResult, IMultiLoadingResult, IPalletizationResult, PackingPhase, ProgressListener } from '../types';
+
+// Minimum time between two progress messages of the same phase.
+const PROGRESS_INTERVAL = 100;
+
+/**
+ * Every request carries the `runId` the handler assigned to it; all
+ * messages sent back for the request repeat it, so the handler can tell
+ * them apart from those of earlier, abandoned requests.
+ */
+type WorkerMessage = { runId: number } & (
+  | {
+      type: 'START_PACKING';
+      payload: {
+        items: ICargoItem[];
+        container: IContainer;
+        config?: Partial<IPackingConfig>;
+      };
+    }
+  | {
+      type: 'START_MULTI_PACKING';
+      payload: {
+        items: ICargoItem[];
+        containers: IContainer[];
+        config?: Partial<IPackingConfig>;
+      };
+    }
+  | {
+      type: 'START_FLEET_RECOMMENDATION';
+      payload: {
+        items: ICargoItem[];
+        presets: IContainerPreset[];
+        config?: Partial<IPackingConfig>;
+      };
+    }
+  | {
+      type: 'START_OPTIMIZATION';
+      payload: {
+        items: ICargoItem[];
+        container: IContainer;
+        config?: Partial<IPackingConfig>;
+        optimizerConfig?: Partial<IMetaheuristicConfig>;
+      };
+    }
+  | {
+      type: 'START_PALLETIZATION';
+      payload: {
+        items: ICargoItem[];
+        palletizerConfig: IPalletizerConfig;
+        config?: Partial<IPackingConfig>;
+      };
+    }
+);
+
+function createProgressReporter(runId: number): ProgressListener {
+  let lastPhase: PackingPhase | null = null;
+  let lastTime = 0;
+
+  return (progress) => {
+    const now = performance.now();
+    if (progress.phase === lastPhase && now - lastTime < PROGRESS_INTERVAL) return;
+
+    lastPhase = progress.phase;
+    lastTime = now;
+    self.postMessage({ type: 'PROGRESS', runId, payload: progress });
   };
 }
 
 self.onmessage = (event: MessageEvent<WorkerMessage>) => {
-  const { type, payload } = event.data;
+  const message = event.data;
+  const { runId } = message;
+
+  try {
+    if (message.type === 'START_PACKING') {
+      const engine = new PackingEngine(message.payload.config, defaultStrategyRegistry);
+      engine.setProgressListener(createProgressReporter(runId));
+      const result: ILoadingResult = engine.run(message.payload.items, message.payload.container);
+
+      self.postMessage({
+        type: 'PACKING_COMPLETE',
+        runId,
+        payload: result,
+      });
+    } else if (message.type === 'START_MULTI_PACKING') {
+      const engine = new PackingEngine(message.payload.config, defaultStrategyRegistry);
+      engine.setProgressListener(createProgressReporter(runId));
+      const result: IMultiLoadingResult = engine.runMultiContainer(
+        message.payload.items,
+        message.payload.containers
+      );
+
+      self.postMessage({
+        type: 'MULTI_PACKING_COMPLETE',
+        runId,
+        payload: result,
+      });
+    } else if (message.type === 'START_FLEET_RECOMMENDATION') {
+      const recommender = new FleetRecommender(message.payload.config, undefined, defaultStrategyRegistry);
+      const options: IFleetOption[] = recommender.recommend(message.payload.items, message.payload.presets);
+
+      self.postMessage({
+        type: 'FLEET_RECOMMENDATION_COMPLETE',
+        runId,
+        payload: options,
+      });
+    } else if (message.type === 'START_OPTIMIZATION') {
+      const optimizer = new MetaheuristicOptimizer(
+        message.payload.optimizerConfig,
+        message.payload.config,
+        defaultStrategyRegistry
+      );
+      optimizer.setProgressListener(createProgressReporter(runId));
+      const result: ILoadingResult = optimizer.optimize(message.payload.items, message.payload.container);
 
-  if (type === 'START_PACKING') {
-    const engine = new PackingEngine();
-    const result: ILoadingResult = engine.run(payload.items, payload.container);
+      self.postMessage({
+        type: 'OPTIMIZATION_COMPLETE',
+        runId,
+        payload: result,
+      });
+    } else if (message.type === 'START_PALLETIZATION') {
+      const palletizer = new Palletizer(
+        message.payload.palletizerConfig,
+        message.payload.config,
+        defaultStrategyRegistry
+      );
+      const result: IPalletizationResult = palletizer.palletize(message.payload.items);
 
+      self.postMessage({
+        type: 'PALLETIZATION_COMPLETE',
+        runId,
+        payload: result,
+      });
+    }
+  } catch (error) {
     self.postMessage({
-      type: 'PACKING_COMPLETE',
-      payload: result,
+      type: 'PACKING_ERROR',
+      runId,
+      payload: { message: error instanceof Error ? error.message : String(error) },
     });
   }
 };
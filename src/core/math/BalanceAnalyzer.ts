@@ -0,0 +1,150 @@
+import type { IContainer, IPlacedItem, IVector3 } from '../types';
+import type { WeightDistribution } from '../../types/reporting';
+
+/**
+ * Allowed centre-of-gravity offset from the container centre, as a fraction
+ * of the container length (x) and width (z). 0.1 longitudinal allows the
+ * COG anywhere within ±10% of the length around the middle.
+ */
+export interface IBalanceTolerance {
+  longitudinal: number;
+  lateral: number;
+}
+
+export const DEFAULT_BALANCE_TOLERANCE: IBalanceTolerance = {
+  longitudinal: 0.1,
+  lateral: 0.05
+};
+
+type BalanceClass = WeightDistribution['containerDistribution'][number]['distribution'];
+
+/**
+ * Centre of gravity and balance of a load. The front of the container is
+ * x = 0 (loaded first, away from the door) and left is z = 0. Items are
+ * treated as uniform solids, so each one acts at the centre of its placed
+ * bounding box; items without a weight contribute nothing.
+ */
+export class BalanceAnalyzer {
+  static analyze(
+    placedItems: IPlacedItem[],
+    container: IContainer,
+    tolerance: IBalanceTolerance = DEFAULT_BALANCE_TOLERANCE
+  ): WeightDistribution {
+    const dims = container.dimensions;
+    const weight = placedItems.reduce((acc, p) => acc + (p.item.weight || 0), 0);
+    const warnings: string[] = [];
+
+    const cog = this.calculateCenterOfGravity(placedItems) ?? this.getContainerCenter(container);
+    if (weight === 0 && placedItems.length > 0) {
+      warnings.push('No item weights set; balance cannot be assessed');
+    }
+
+    const offsetX = cog.x - dims.length / 2;
+    const offsetZ = cog.z - dims.width / 2;
+    const allowedX = tolerance.longitudinal * dims.length;
+    const allowedZ = tolerance.lateral * dims.width;
+
+    if (weight > 0 && Math.abs(offsetX) > allowedX) {
+      warnings.push(
+        `Centre of gravity is ${this.formatCm(Math.abs(offsetX))} towards the ${offsetX < 0 ? 'front' : 'door'} (limit ${this.formatCm(allowedX)})`
+      );
+    }
+    if (weight > 0 && Math.abs(offsetZ) > allowedZ) {
+      warnings.push(
+        `Centre of gravity is ${this.formatCm(Math.abs(offsetZ))} to the ${offsetZ < 0 ? 'left' : 'right'} (limit ${this.formatCm(allowedZ)})`
+      );
+    }
+    if (weight > 0 && cog.y > dims.height / 2) {
+      warnings.push(`Centre of gravity is high at ${this.formatCm(cog.y)} above the floor`);
+    }
+
+    return {
+      containerDistribution: [{
+        containerId: container.id,
+        containerName: container.name,
+        weight,
+        percentage: container.maxWeight > 0 ? (weight / container.maxWeight) * 100 : 0,
+        distribution: this.classify(offsetX, offsetZ, allowedX, allowedZ)
+      }],
+      centerOfGravity: cog,
+      isBalanced: weight === 0 || this.getToleranceExcess(cog, container, tolerance) === 0,
+      balanceScore: this.calculateBalanceScore(cog, container),
+      warnings
+    };
+  }
+
+  /**
+   * Weight-averaged centre of the placed items, or null when nothing placed
+   * has a weight.
+   */
+  static calculateCenterOfGravity(placedItems: IPlacedItem[]): IVector3 | null {
+    let totalWeight = 0;
+    let momentX = 0;
+    let momentY = 0;
+    let momentZ = 0;
+
+    for (const placed of placedItems) {
+      const weight = placed.item.weight || 0;
+      if (weight <= 0) continue;
+
+      totalWeight += weight;
+      momentX += weight * (placed.position.x + placed.dimensions.length / 2);
+      momentY += weight * (placed.position.y + placed.dimensions.height / 2);
+      momentZ += weight * (placed.position.z + placed.dimensions.width / 2);
+    }
+
+    if (totalWeight === 0) return null;
+
+    return {
+      x: momentX / totalWeight,
+      y: momentY / totalWeight,
+      z: momentZ / totalWeight
+    };
+  }
+
+  /**
+   * How far the COG lies outside the tolerance box, relative to the container
+   * length and width. 0 means the COG is inside the box.
+   */
+  static getToleranceExcess(cog: IVector3, container: IContainer, tolerance: IBalanceTolerance): number {
+    const dims = container.dimensions;
+    const excessX = Math.max(0, Math.abs(cog.x - dims.length / 2) - tolerance.longitudinal * dims.length);
+    const excessZ = Math.max(0, Math.abs(cog.z - dims.width / 2) - tolerance.lateral * dims.width);
+
+    return excessX / dims.length + excessZ / dims.width;
+  }
+
+  /**
+   * 100 with the COG on the container centre line, falling linearly to 0
+   * when it reaches a wall on either horizontal axis.
+   */
+  private static calculateBalanceScore(cog: IVector3, container: IContainer): number {
+    const dims = container.dimensions;
+    const ratioX = Math.abs(cog.x - dims.length / 2) / (dims.length / 2);
+    const ratioZ = Math.abs(cog.z - dims.width / 2) / (dims.width / 2);
+
+    return Math.max(0, Math.min(100, (1 - Math.max(ratioX, ratioZ)) * 100));
+  }
+
+  private static classify(offsetX: number, offsetZ: number, allowedX: number, allowedZ: number): BalanceClass {
+    // Compare both axes relative to their own tolerance so the worse one wins.
+    const ratioX = allowedX > 0 ? Math.abs(offsetX) / allowedX : Math.abs(offsetX) > 0 ? Infinity : 0;
+    const ratioZ = allowedZ > 0 ? Math.abs(offsetZ) / allowedZ : Math.abs(offsetZ) > 0 ? Infinity : 0;
+
+    if (ratioX <= 1 && ratioZ <= 1) return 'balanced';
+    if (ratioX >= ratioZ) return offsetX < 0 ? 'front-heavy' : 'rear-heavy';
+    return offsetZ < 0 ? 'left-heavy' : 'right-heavy';
+  }
+
+  private static getContainerCenter(container: IContainer): IVector3 {
+    return {
+      x: container.dimensions.length / 2,
+      y: container.dimensions.height / 2,
+      z: container.dimensions.width / 2
+    };
+  }
+
+  private static formatCm(meters: number): string {
+    return `${Math.round(meters * 100)} cm`;
+  }
+}
@@ -0,0 +1,124 @@
+import type { ICargoItem, IDimensions, IPlacedItem, ISequenceConflict, IVector3 } from '../types';
+import { StackingRules } from './StackingRules';
+
+/**
+ * Multi-drop rules. Stops are unloaded in ascending order through the door
+ * at x = container length, so an item must not sit in front of (towards the
+ * door) or on top of an item that leaves the container before it. Items
+ * without a stop stay on board until the end of the route.
+ */
+export class DeliverySequence {
+  private static readonly EPSILON = 0.01;
+
+  static getStop(item: ICargoItem): number {
+    return item.deliveryStop ?? Infinity;
+  }
+
+  static usesStops(items: ICargoItem[]): boolean {
+    return items.some((item) => item.deliveryStop !== undefined);
+  }
+
+  /**
+   * Whether an item at `position` would neither block nor be blocked by an
+   * item of another stop.
+   */
+  static isBlockingFree(
+    item: ICargoItem,
+    position: IVector3,
+    dimensions: IDimensions,
+    placedItems: IPlacedItem[]
+  ): boolean {
+    const stop = this.getStop(item);
+
+    for (const other of placedItems) {
+      const otherStop = this.getStop(other.item);
+      if (otherStop === stop) continue;
+
+      const blocked = otherStop < stop
+        ? this.getBlockingKind(position, dimensions, other.position, other.dimensions)
+        : this.getBlockingKind(other.position, other.dimensions, position, dimensions);
+      if (blocked) return false;
+    }
+
+    return true;
+  }
+
+  static findConflicts(placedItems: IPlacedItem[]): ISequenceConflict[] {
+    const conflicts: ISequenceConflict[] = [];
+
+    for (const blocked of placedItems) {
+      for (const blocker of placedItems) {
+        if (this.getStop(blocker.item) <= this.getStop(blocked.item)) continue;
+
+        const kind = this.getBlockingKind(blocker.position, blocker.dimensions, blocked.position, blocked.dimensions);
+        if (kind) {
+          conflicts.push({ itemId: blocked.itemId, blockedBy: blocker.itemId, kind });
+        }
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Order in which to put the placed items into the container: last stop
+   * first, then front to door, bottom to top. An item is never listed
+   * before the items it rests on.
+   */
+  static buildLoadingSequence(placedItems: IPlacedItem[]): string[] {
+    const pending = [...placedItems].sort((a, b) => {
+      const stopDiff = this.getStop(b.item) - this.getStop(a.item);
+      if (stopDiff !== 0 && !isNaN(stopDiff)) return stopDiff;
+      if (a.position.x !== b.position.x) return a.position.x - b.position.x;
+      if (a.position.y !== b.position.y) return a.position.y - b.position.y;
+      return a.position.z - b.position.z;
+    });
+
+    const supports = new Map(placedItems.map((placed) => [
+      placed,
+      StackingRules.getItemsBelow(placed.position, placed.dimensions, placedItems)
+    ]));
+    const loaded = new Set<IPlacedItem>();
+    const sequence: string[] = [];
+
+    while (pending.length > 0) {
+      // The first item whose supports are all in; the lowest pending item
+      // always qualifies, so the loop cannot stall.
+      let index = pending.findIndex((placed) => supports.get(placed)!.every((s) => loaded.has(s)));
+      if (index === -1) index = 0;
+
+      const [next] = pending.splice(index, 1);
+      loaded.add(next);
+      sequence.push(next.itemId);
+    }
+
+    return sequence;
+  }
+
+  /**
+   * How the item at `blockerPos` gets in the way of unloading the item at
+   * `blockedPos`, if at all.
+   */
+  private static getBlockingKind(
+    blockerPos: IVector3,
+    blockerDims: IDimensions,
+    blockedPos: IVector3,
+    blockedDims: IDimensions
+  ): ISequenceConflict['kind'] | null {
+    const eps = this.EPSILON;
+    const overlapsX = blockerPos.x < blockedPos.x + blockedDims.length - eps &&
+      blockedPos.x < blockerPos.x + blockerDims.length - eps;
+    const overlapsY = blockerPos.y < blockedPos.y + blockedDims.height - eps &&
+      blockedPos.y < blockerPos.y + blockerDims.height - eps;
+    const overlapsZ = blockerPos.z < blockedPos.z + blockedDims.width - eps &&
+      blockedPos.z < blockerPos.z + blockerDims.width - eps;
+
+    if (overlapsX && overlapsZ && blockerPos.y >= blockedPos.y + blockedDims.height - eps) {
+      return 'on_top';
+    }
+    if (overlapsY && overlapsZ && blockerPos.x >= blockedPos.x + blockedDims.length - eps) {
+      return 'in_front';
+    }
+    return null;
+  }
+}
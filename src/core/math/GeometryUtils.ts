@@ -1,4 +1,14 @@
-import type { IVector3, IDimensions, RollOrientation } from '../types';
+import type { CargoType, IContainer, IVector3, IDimensions, IPlacedItem, RollKind, RollOrientation } from '../types';
+
+export interface IRollCrossSection {
+  axis: 'x' | 'z';
+  u: number;
+  v: number;
+  radius: number;
+  /** Where the roll starts and how far it runs along its axis. */
+  start: number;
+  length: number;
+}
 
 export class GeometryUtils {
   private static readonly EPSILON = 0.001;
@@ -49,6 +59,15 @@ export class GeometryUtils {
     return true;
   }
 
+  /**
+   * Kind of a roll for collision tests: rolls of different kinds always
+   * collide, however far apart they are.
+   */
+  static getRollKind(dimensions: IDimensions, orientation: RollOrientation = 'vertical'): RollKind {
+    if (orientation === 'vertical') return 'vertical';
+    return dimensions.length > dimensions.width ? 'horizontal-x' : 'horizontal-z';
+  }
+
   static checkAABBIntersection(
     pos1: IVector3,
     dim1: IDimensions,
@@ -82,6 +101,79 @@ export class GeometryUtils {
     );
   }
 
+  /**
+   * Whether an item at `position` reaches into any of the container's
+   * obstacles. Rolls are tested as cylinders.
+   */
+  static intersectsObstacle(
+    position: IVector3,
+    dimensions: IDimensions,
+    container: IContainer,
+    itemType: CargoType = 'box',
+    orientation: RollOrientation = 'vertical'
+  ): boolean {
+    return (container.obstacles ?? []).some((obstacle) => this.checkIntersection(
+      position, dimensions,
+      obstacle.position, obstacle.dimensions,
+      itemType, 'box',
+      orientation
+    ));
+  }
+
+  /**
+   * Top face of a placed item, as a rectangle in the floor plane. The load
+   * of a palletized item is centred on its pallet and may be smaller than it.
+   */
+  static getTopFace(placed: IPlacedItem): { x: number; z: number; length: number; width: number } {
+    const { position, dimensions, item } = placed;
+    if (!item.palletDimensions || !item.dimensions) {
+      return { x: position.x, z: position.z, length: dimensions.length, width: dimensions.width };
+    }
+
+    const isRotated = placed.rotation === 90 || placed.rotation === 270;
+    const length = isRotated ? item.dimensions.width : item.dimensions.length;
+    const width = isRotated ? item.dimensions.length : item.dimensions.width;
+    return {
+      x: position.x + (dimensions.length - length) / 2,
+      z: position.z + (dimensions.width - width) / 2,
+      length,
+      width
+    };
+  }
+
+  /**
+   * Cross-section of a lying roll: the circle across its axis, centred at
+   * `u` (across the container floor) and `v` (height above it).
+   */
+  static getRollCrossSection(position: IVector3, dimensions: IDimensions): IRollCrossSection {
+    const radius = dimensions.height / 2;
+    return dimensions.length > dimensions.width
+      ? { axis: 'x', u: position.z + radius, v: position.y + radius, radius, start: position.x, length: dimensions.length }
+      : { axis: 'z', u: position.x + radius, v: position.y + radius, radius, start: position.z, length: dimensions.width };
+  }
+
+  /**
+   * Whether two lying rolls lie side by side along the same axis and touch:
+   * their cross-sections are tangent, within `tolerance`.
+   */
+  static checkCylinderContact(
+    pos1: IVector3,
+    dim1: IDimensions,
+    pos2: IVector3,
+    dim2: IDimensions,
+    tolerance: number = 0.01
+  ): boolean {
+    const ALLOWED_OVERLAP = 0.005;
+    const c1 = this.getRollCrossSection(pos1, dim1);
+    const c2 = this.getRollCrossSection(pos2, dim2);
+
+    if (c1.axis !== c2.axis || !this.checkIntervalOverlap(c1.start, c1.length, c2.start, c2.length)) return false;
+
+    const dist = Math.sqrt((c1.u - c2.u) ** 2 + (c1.v - c2.v) ** 2);
+    const touching = c1.radius + c2.radius;
+    return dist >= touching - ALLOWED_OVERLAP - tolerance && dist <= touching + tolerance;
+  }
+
   // --- PRIVATE MATH ---
 
   private static checkCylinderCylinderIntersection(
@@ -0,0 +1,217 @@
+import type { CargoType, IContainer, ILoadingResult, IPlacedItem, IPlanViolation, RollOrientation } from '../types';
+import { GeometryUtils } from './GeometryUtils';
+import { SpatialIndex } from './SpatialIndex';
+
+export interface ILoadPlanValidationOptions {
+  /** Share of an item's footprint that must rest on flat tops below it. */
+  minSupportRatio: Record<CargoType, number>;
+}
+
+export const DEFAULT_VALIDATION_OPTIONS: ILoadPlanValidationOptions = {
+  minSupportRatio: { box: 0.75, pallet: 0.75, roll: 0.5 }
+};
+
+/**
+ * Checks a finished load plan from its placements alone, without the
+ * strategies that produced it, so it works equally for engine results and
+ * plans imported from elsewhere.
+ *
+ * Items must keep clear of the container's obstacles. Items above the
+ * floor need enough of their footprint on flat tops (boxes, pallets,
+ * upright rolls) just below them. Lying rolls have no flat top; a lying
+ * roll may instead rest on lying rolls along the same axis that it
+ * touches from above. Pallets stand on the floor, or double-stacked with
+ * their whole base on the loads of other pallets.
+ */
+export class LoadPlanValidator {
+  private static readonly EPSILON = 0.01;
+
+  static validate(
+    result: Pick<ILoadingResult, 'placedItems'>,
+    container: IContainer,
+    options: ILoadPlanValidationOptions = DEFAULT_VALIDATION_OPTIONS
+  ): IPlanViolation[] {
+    const { placedItems } = result;
+    const violations: IPlanViolation[] = [];
+    const index = SpatialIndex.for(placedItems);
+
+    placedItems.forEach((placed, i) => {
+      if (!GeometryUtils.isWithinBounds(placed.position, placed.dimensions, container.dimensions)) {
+        violations.push({
+          kind: 'out_of_bounds',
+          itemIds: [placed.itemId],
+          message: `${placed.itemId} extends beyond the container walls`
+        });
+      }
+
+      const obstacle = container.obstacles?.find((o) => GeometryUtils.checkIntersection(
+        placed.position, placed.dimensions,
+        o.position, o.dimensions,
+        placed.item.type, 'box',
+        this.getOrientation(placed)
+      ));
+      if (obstacle) {
+        violations.push({
+          kind: 'obstacle',
+          itemIds: [placed.itemId],
+          message: `${placed.itemId} reaches into ${obstacle.name || obstacle.id}`
+        });
+      }
+
+      if (this.isPallet(placed) && placed.position.y > this.EPSILON && !this.isDoubleStacked(placed, index)) {
+        violations.push({
+          kind: 'not_on_floor',
+          itemIds: [placed.itemId],
+          message: `${placed.itemId} is a pallet but stands ${this.formatCm(placed.position.y)} above the floor without being double-stacked`
+        });
+      }
+
+      // Each pair once: only against items listed before this one.
+      for (const other of index.query(placed.position, placed.dimensions, 0, i)) {
+        if (GeometryUtils.checkIntersection(
+          placed.position, placed.dimensions,
+          other.position, other.dimensions,
+          placed.item.type, other.item.type,
+          this.getOrientation(placed), this.getOrientation(other)
+        )) {
+          violations.push({
+            kind: 'overlap',
+            itemIds: [other.itemId, placed.itemId],
+            message: `${placed.itemId} overlaps ${other.itemId}`
+          });
+        }
+      }
+
+      if (placed.position.y > this.EPSILON) {
+        const neighbours = index.query(placed.position, placed.dimensions, this.EPSILON);
+        const ratio = this.getSupportRatio(placed, neighbours);
+        const required = options.minSupportRatio[placed.item.type];
+
+        if (ratio < required - this.EPSILON && !this.restsOnRolls(placed, neighbours)) {
+          violations.push({
+            kind: 'unsupported',
+            itemIds: [placed.itemId],
+            message: `${placed.itemId} has ${Math.round(ratio * 100)}% of its base supported (needs ${Math.round(required * 100)}%)`
+          });
+        }
+      }
+    });
+
+    const totalWeight = placedItems.reduce((acc, p) => acc + (p.item.weight || 0), 0);
+    if (container.maxWeight > 0 && totalWeight > container.maxWeight + this.EPSILON) {
+      violations.push({
+        kind: 'overweight',
+        itemIds: [],
+        message: `Load weighs ${totalWeight.toFixed(0)} kg, over the ${container.maxWeight.toFixed(0)} kg payload`
+      });
+    }
+
+    return violations;
+  }
+
+  /**
+   * Rolls carry the orientation the strategy placed them in; for imported
+   * plans without it, a roll standing as tall as it is long is upright.
+   */
+  private static getOrientation(placed: IPlacedItem): RollOrientation {
+    if (placed.orientation) return placed.orientation;
+
+    const rollLength = placed.item.rollDimensions?.length;
+    return rollLength !== undefined && Math.abs(placed.dimensions.height - rollLength) < this.EPSILON
+      ? 'vertical'
+      : 'horizontal';
+  }
+
+  private static isPallet(placed: IPlacedItem): boolean {
+    return placed.item.type === 'pallet' || placed.item.isPalletized === true;
+  }
+
+  /**
+   * Whether a pallet stands with its whole base on the loads of pallets
+   * underneath, itself and all of them being double-stackable.
+   */
+  private static isDoubleStacked(placed: IPlacedItem, index: SpatialIndex): boolean {
+    if (!placed.item.doubleStackable) return false;
+
+    const { position, dimensions } = placed;
+    let supported = 0;
+    for (const other of index.query(position, dimensions, this.EPSILON)) {
+      if (other === placed) continue;
+
+      const top = other.position.y + other.dimensions.height;
+      if (Math.abs(top - position.y) > this.EPSILON) continue;
+
+      const face = GeometryUtils.getTopFace(other);
+      const overlapX = Math.min(position.x + dimensions.length, face.x + face.length) - Math.max(position.x, face.x);
+      const overlapZ = Math.min(position.z + dimensions.width, face.z + face.width) - Math.max(position.z, face.z);
+      if (overlapX <= 0 || overlapZ <= 0) continue;
+
+      if (!this.isPallet(other) || !other.item.doubleStackable) return false;
+      supported += overlapX * overlapZ;
+    }
+
+    return supported >= dimensions.length * dimensions.width * (1 - this.EPSILON);
+  }
+
+  private static hasFlatTop(placed: IPlacedItem): boolean {
+    return placed.item.type !== 'roll' || this.getOrientation(placed) === 'vertical';
+  }
+
+  private static getSupportRatio(placed: IPlacedItem, neighbours: IPlacedItem[]): number {
+    const { position, dimensions } = placed;
+    const area = dimensions.length * dimensions.width;
+    if (area <= 0) return 0;
+
+    let supported = 0;
+    for (const other of neighbours) {
+      if (other === placed || !this.hasFlatTop(other)) continue;
+
+      const top = other.position.y + other.dimensions.height;
+      if (Math.abs(top - position.y) > this.EPSILON) continue;
+
+      const overlapX = Math.min(position.x + dimensions.length, other.position.x + other.dimensions.length) -
+        Math.max(position.x, other.position.x);
+      const overlapZ = Math.min(position.z + dimensions.width, other.position.z + other.dimensions.width) -
+        Math.max(position.z, other.position.z);
+      if (overlapX > 0 && overlapZ > 0) supported += overlapX * overlapZ;
+    }
+
+    return supported / area;
+  }
+
+  /**
+   * Whether a lying roll touches, from above, a lying roll along the same
+   * axis: their centres are one radius sum apart in the cross-section.
+   */
+  private static restsOnRolls(placed: IPlacedItem, neighbours: IPlacedItem[]): boolean {
+    if (placed.item.type !== 'roll' || this.getOrientation(placed) !== 'horizontal') return false;
+
+    const alongX = placed.dimensions.length > placed.dimensions.width;
+    const radius = placed.dimensions.height / 2;
+    const center = this.getCrossSectionCenter(placed, alongX);
+
+    return neighbours.some((other) => {
+      if (other === placed || other.item.type !== 'roll' || this.getOrientation(other) !== 'horizontal') return false;
+      if ((other.dimensions.length > other.dimensions.width) !== alongX) return false;
+
+      const otherRadius = other.dimensions.height / 2;
+      const otherCenter = this.getCrossSectionCenter(other, alongX);
+      if (otherCenter.y >= center.y) return false;
+
+      const distance = Math.hypot(center.across - otherCenter.across, center.y - otherCenter.y);
+      return Math.abs(distance - (radius + otherRadius)) <= this.EPSILON;
+    });
+  }
+
+  private static getCrossSectionCenter(placed: IPlacedItem, alongX: boolean): { across: number; y: number } {
+    const radius = placed.dimensions.height / 2;
+    return {
+      across: alongX ? placed.position.z + radius : placed.position.x + radius,
+      y: placed.position.y + radius
+    };
+  }
+
+  private static formatCm(meters: number): string {
+    return `${Math.round(meters * 100)} cm`;
+  }
+}
@@ -0,0 +1,101 @@
+import type { ICargoItem, IDimensions, ItemAxis, RollOrientation } from '../types';
+
+const ALL_AXES: ItemAxis[] = ['length', 'width', 'height'];
+
+export interface IAxisOrientation {
+  dimensions: IDimensions;
+  verticalAxis: ItemAxis;
+}
+
+/**
+ * Which way up an item may be loaded. Rules are expressed as the item axes
+ * allowed to point up:
+ * - 'any': every axis
+ * - 'upright': only the item's own height (this side up)
+ * - 'flat': any axis but the longest, so the long side stays horizontal
+ * - 'explicit': the axes listed in `allowedVerticalAxes`
+ * Palletized items always stand on their pallet, so only 'height' remains.
+ */
+export class OrientationRules {
+  static getAllowedVerticalAxes(item: ICargoItem): ItemAxis[] {
+    const axes = this.getRuleAxes(item);
+    return item.isPalletized || item.palletDimensions
+      ? axes.filter((axis) => axis === 'height')
+      : axes;
+  }
+
+  static allowsVerticalAxis(item: ICargoItem, axis: ItemAxis): boolean {
+    return this.getAllowedVerticalAxes(item).includes(axis);
+  }
+
+  /**
+   * The six axis-aligned rotations of `dims`, limited to the allowed
+   * vertical axes. Rotations that give identical boxes are returned once.
+   */
+  static getOrientations(dims: IDimensions, verticalAxes: ItemAxis[] = ALL_AXES): IAxisOrientation[] {
+    const all: IAxisOrientation[] = [
+      { verticalAxis: 'height', dimensions: { length: dims.length, width: dims.width, height: dims.height } },
+      { verticalAxis: 'height', dimensions: { length: dims.width, width: dims.length, height: dims.height } },
+      { verticalAxis: 'width', dimensions: { length: dims.length, width: dims.height, height: dims.width } },
+      { verticalAxis: 'width', dimensions: { length: dims.height, width: dims.length, height: dims.width } },
+      { verticalAxis: 'length', dimensions: { length: dims.width, width: dims.height, height: dims.length } },
+      { verticalAxis: 'length', dimensions: { length: dims.height, width: dims.width, height: dims.length } }
+    ];
+
+    const seen = new Set<string>();
+    return all.filter((o) => {
+      if (!verticalAxes.includes(o.verticalAxis)) return false;
+      const key = `${o.dimensions.length},${o.dimensions.width},${o.dimensions.height}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * Rolls map onto the same rules with the cylinder axis as `length` and
+   * the cross-section as `width`/`height`: standing on end is 'vertical',
+   * lying down is 'horizontal'.
+   */
+  static allowsRollOrientation(item: ICargoItem, orientation: RollOrientation, diameter: number, rollLength: number): boolean {
+    const rule = item.orientationRule ?? 'any';
+
+    switch (rule) {
+      case 'upright':
+        return orientation === 'vertical';
+      case 'flat':
+        if (rollLength > diameter) return orientation === 'horizontal';
+        if (diameter > rollLength) return orientation === 'vertical';
+        return true;
+      case 'explicit': {
+        const axes = item.allowedVerticalAxes ?? [];
+        return orientation === 'vertical'
+          ? axes.includes('length')
+          : axes.includes('width') || axes.includes('height');
+      }
+      default:
+        return true;
+    }
+  }
+
+  private static getRuleAxes(item: ICargoItem): ItemAxis[] {
+    const rule = item.orientationRule ?? 'any';
+
+    switch (rule) {
+      case 'upright':
+        return ['height'];
+      case 'flat':
+        return item.dimensions ? this.getNonLongestAxes(item.dimensions) : ALL_AXES;
+      case 'explicit':
+        return ALL_AXES.filter((axis) => item.allowedVerticalAxes?.includes(axis));
+      default:
+        return ALL_AXES;
+    }
+  }
+
+  private static getNonLongestAxes(dims: IDimensions): ItemAxis[] {
+    const longest = Math.max(dims.length, dims.width, dims.height);
+    const axes = ALL_AXES.filter((axis) => dims[axis] < longest);
+    return axes.length > 0 ? axes : ALL_AXES;
+  }
+}
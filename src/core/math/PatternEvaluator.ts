@@ -1,6 +1,8 @@
 import type { ICargoItem, IContainer, IDimensions } from '../types';
 import { PatternGenerator, type ILayoutPattern, type IPlacementSlot } from './PatternGenerator';
 import { GeometryUtils } from './GeometryUtils';
+import { StackingRules } from './StackingRules';
+import { OrientationRules } from './OrientationRules';
 
 export interface IPatternEvaluation {
   pattern: ILayoutPattern;
@@ -19,6 +21,7 @@ export class PatternEvaluator {
 
     const firstItem = items[0];
     if (!firstItem.dimensions) return null;
+    if (!OrientationRules.allowsVerticalAxis(firstItem, 'height')) return null;
 
     const patterns = PatternGenerator.generatePalletPatterns(
       firstItem.dimensions,
@@ -40,7 +43,8 @@ export class PatternEvaluator {
         firstItem.dimensions,
         firstItem.palletDimensions,
         container.dimensions,
-        firstItem.isPalletized || false
+        StackingRules.isFloorOnly(firstItem),
+        StackingRules.getMaxLayers(firstItem)
       );
 
       const itemsFitted = Math.min(slots.length, items.length);
@@ -84,7 +88,8 @@ export class PatternEvaluator {
       firstItem.dimensions,
       firstItem.palletDimensions,
       container.dimensions,
-      items.length
+      items.length,
+      OrientationRules.getAllowedVerticalAxes(firstItem)
     );
 
     if (patterns.length === 0) return null;
@@ -100,7 +105,8 @@ export class PatternEvaluator {
         firstItem.dimensions,
         firstItem.palletDimensions,
         container.dimensions,
-        firstItem.isPalletized || false
+        StackingRules.isFloorOnly(firstItem),
+        StackingRules.getMaxLayers(firstItem)
       );
 
       const itemsFitted = Math.min(slots.length, items.length);
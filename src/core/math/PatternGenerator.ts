@@ -1,8 +1,17 @@
-import type { IDimensions, IVector3 } from '../types';
-
+import type { IDimensions, ItemAxis, IVector3 } from '../types';
+import { OrientationRules } from './OrientationRules';
+
+/**
+ * One lane of a floor pattern, running from the front wall towards the
+ * door. A pattern's lanes lie side by side across the container width in
+ * the order listed.
+ */
 export interface IRowPattern {
+  /** Space the lane takes across the container width. */
   rowWidth: number;
+  /** 'length': the item's length runs along the container; 'width': it is turned 90°. */
   itemOrientation: 'length' | 'width';
+  /** Units one behind the other along the lane, per layer. */
   itemsPerRow: number;
 }
 
@@ -20,6 +29,8 @@ export interface IPlacementSlot {
 }
 
 export class PatternGenerator {
+  private static readonly EPSILON = 0.001;
+
   static generatePalletPatterns(
     itemDims: IDimensions,
     palletDims: IDimensions | undefined,
@@ -34,65 +45,19 @@ export class PatternGenerator {
       height: itemDims.height + palletDims.height
     } : itemDims;
 
-    const containerLength = containerDims.length;
-    const containerWidth = containerDims.width;
-
-    const lengthOriented = {
-      itemLength: baseDims.length,
-      itemWidth: baseDims.width
-    };
-
-    const widthOriented = {
-      itemLength: baseDims.width,
-      itemWidth: baseDims.length
-    };
-
-    const maxRowsLength = Math.floor(containerWidth / lengthOriented.itemWidth);
-    const maxRowsWidth = Math.floor(containerWidth / widthOriented.itemWidth);
-
-    for (let rowsL = 0; rowsL <= Math.min(maxRowsLength, 5); rowsL++) {
-      for (let rowsW = 0; rowsW <= Math.min(maxRowsWidth, 5); rowsW++) {
-        const usedWidth = (rowsL * lengthOriented.itemWidth) + (rowsW * widthOriented.itemWidth);
+    const floorArea = containerDims.length * containerDims.width;
 
-        if (usedWidth > containerWidth + 0.1) continue;
-        if (rowsL === 0 && rowsW === 0) continue;
-
-        // For back-to-front filling: itemsPerRow represents positions across width
-        const itemsPerRowL = Math.floor(containerWidth / lengthOriented.itemWidth);
-        const itemsPerRowW = Math.floor(containerWidth / widthOriented.itemWidth);
-
-        const depthPositions = Math.floor(containerLength / Math.max(lengthOriented.itemLength, widthOriented.itemLength));
-        const totalItems = ((rowsL * itemsPerRowL) + (rowsW * itemsPerRowW)) * depthPositions;
-
-        if (totalItems === 0) continue;
-
-        const rows: IRowPattern[] = [];
-
-        for (let i = 0; i < rowsL; i++) {
-          rows.push({
-            rowWidth: lengthOriented.itemLength,
-            itemOrientation: 'length',
-            itemsPerRow: itemsPerRowL
-          });
-        }
+    // Pallets are scored on the floor alone: one layer.
+    for (const rows of this.generateRowMixes(baseDims, containerDims)) {
+      const totalItems = rows.reduce((acc, row) => acc + row.itemsPerRow, 0);
+      const usedArea = totalItems * baseDims.length * baseDims.width;
 
-        for (let i = 0; i < rowsW; i++) {
-          rows.push({
-            rowWidth: widthOriented.itemLength,
-            itemOrientation: 'width',
-            itemsPerRow: itemsPerRowW
-          });
-        }
-
-        const utilization = (usedWidth / containerWidth) * 100;
-
-        patterns.push({
-          rows,
-          totalItems,
-          utilizationScore: utilization,
-          orientation: orientation
-        });
-      }
+      patterns.push({
+        rows,
+        totalItems,
+        utilizationScore: (usedArea / floorArea) * 100,
+        orientation: baseDims
+      });
     }
 
     patterns.sort((a, b) => {
@@ -109,7 +74,8 @@ export class PatternGenerator {
     itemDims: IDimensions,
     palletDims: IDimensions | undefined,
     containerDims: IDimensions,
-    itemCount: number
+    itemCount: number,
+    verticalAxes: ItemAxis[] = ['length', 'width', 'height']
   ): ILayoutPattern[] {
     const patterns: ILayoutPattern[] = [];
 
@@ -119,85 +85,29 @@ export class PatternGenerator {
       height: itemDims.height + palletDims.height
     } : itemDims;
 
-    const orientations = this.getAllOrientations(baseDims);
+    const orientations = OrientationRules.getOrientations(baseDims, verticalAxes).map((o) => o.dimensions);
+    const containerVolume = containerDims.length * containerDims.width * containerDims.height;
+    const seen = new Set<string>();
 
     for (const orientation of orientations) {
-      const lengthOriented = {
-        itemLength: orientation.length,
-        itemWidth: orientation.width,
-        itemHeight: orientation.height
-      };
-
-      const widthOriented = {
-        itemLength: orientation.width,
-        itemWidth: orientation.length,
-        itemHeight: orientation.height
-      };
-
-      const configs = [
-        { lengthRows: 1, widthRows: 0 },
-        { lengthRows: 0, widthRows: 1 }
-      ];
-
-      const maxLengthRows = Math.floor(containerDims.width / lengthOriented.itemWidth);
-      const maxWidthRows = Math.floor(containerDims.width / widthOriented.itemWidth);
-
-      if (maxLengthRows > 1 && maxWidthRows > 0) {
-        for (let lr = 1; lr <= Math.min(maxLengthRows, 3); lr++) {
-          for (let wr = 0; wr <= Math.min(maxWidthRows, 3); wr++) {
-            if (lr === 1 && wr === 0) continue;
-            if (lr === 0 && wr === 1) continue;
-            const usedWidth = (lr * lengthOriented.itemWidth) + (wr * widthOriented.itemWidth);
-            if (usedWidth <= containerDims.width + 0.01) {
-              configs.push({ lengthRows: lr, widthRows: wr });
-            }
-          }
-        }
-      }
-
-      for (const config of configs) {
-        const rows: IRowPattern[] = [];
-        // For back-to-front filling: itemsPerRow represents positions across container WIDTH
-        // not positions along container LENGTH
-        const itemsPerRowL = Math.floor(containerDims.width / lengthOriented.itemWidth);
-        const itemsPerRowW = Math.floor(containerDims.width / widthOriented.itemWidth);
-
-        for (let i = 0; i < config.lengthRows; i++) {
-          rows.push({
-            rowWidth: lengthOriented.itemLength,
-            itemOrientation: 'length',
-            itemsPerRow: itemsPerRowL
-          });
-        }
-
-        for (let i = 0; i < config.widthRows; i++) {
-          rows.push({
-            rowWidth: widthOriented.itemLength,
-            itemOrientation: 'width',
-            itemsPerRow: itemsPerRowW
-          });
-        }
-
-        if (rows.length === 0) continue;
-
-        const itemsInLayer = (config.lengthRows * itemsPerRowL) + (config.widthRows * itemsPerRowW);
-        if (itemsInLayer === 0) continue;
-
-        const layers = Math.floor(containerDims.height / orientation.height);
-        const depthPositions = Math.floor(containerDims.length / orientation.length);
-        const totalItems = itemsInLayer * layers * depthPositions;
+      // Lanes cover both turns of the footprint, so an orientation and its
+      // 90° turn give the same patterns.
+      const key = `${Math.min(orientation.length, orientation.width)},${Math.max(orientation.length, orientation.width)},${orientation.height}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
 
-        if (totalItems === 0) continue;
+      const layers = Math.floor((containerDims.height + this.EPSILON) / orientation.height);
+      if (layers === 0) continue;
 
+      for (const rows of this.generateRowMixes(orientation, containerDims)) {
+        const totalItems = rows.reduce((acc, row) => acc + row.itemsPerRow, 0) * layers;
         const usedVolume = totalItems * (orientation.length * orientation.width * orientation.height);
-        const containerVolume = containerDims.length * containerDims.width * containerDims.height;
-        const utilization = (usedVolume / containerVolume) * 100;
 
         patterns.push({
           rows,
           totalItems,
-          utilizationScore: utilization,
-          orientation: orientation
+          utilizationScore: (usedVolume / containerVolume) * 100,
+          orientation
         });
       }
     }
@@ -217,76 +127,85 @@ export class PatternGenerator {
     itemDims: IDimensions,
     palletDims: IDimensions | undefined,
     containerDims: IDimensions,
-    isPalletized: boolean = false
+    floorOnly: boolean = false,
+    layerLimit: number = Infinity
   ): IPlacementSlot[] {
     const slots: IPlacementSlot[] = [];
 
     const baseDims = pattern.orientation;
 
-    const maxLayers = isPalletized ? 1 : Math.floor(containerDims.height / baseDims.height);
-
-    // Calculate depth positions based on first row dimensions
-    if (pattern.rows.length === 0) return slots;
-
-    const firstRow = pattern.rows[0];
-    const depthIncrement = firstRow.itemOrientation === 'length' ? baseDims.length : baseDims.width;
-    const maxDepthPositions = Math.floor(containerDims.length / depthIncrement);
-
-    // For back-to-front filling, calculate how many items fit across the width
-    const itemWidth = firstRow.itemOrientation === 'length' ? baseDims.width : baseDims.length;
-    const itemLength = firstRow.itemOrientation === 'length' ? baseDims.length : baseDims.width;
-    const itemRotation = firstRow.itemOrientation === 'length' ? 0 : 90;
-    const widthPositions = Math.floor(containerDims.width / itemWidth);
-
-    // Back-to-front filling: iterate depth (X) first, then height (Y), then width (Z)
-    for (let depthPos = 0; depthPos < maxDepthPositions; depthPos++) {
-      const x = depthPos * depthIncrement;
-
-      if (x + depthIncrement > containerDims.length + 0.01) break;
-
-      for (let layer = 0; layer < maxLayers; layer++) {
-        const y = layer * baseDims.height;
+    const maxLayers = floorOnly ? 1 : Math.min(layerLimit, Math.floor((containerDims.height + this.EPSILON) / baseDims.height));
 
-        if (y + baseDims.height > containerDims.height + 0.01) break;
-
-        // Place items across the width at this depth and layer
-        for (let widthPos = 0; widthPos < widthPositions; widthPos++) {
-          const z = widthPos * itemWidth;
-
-          if (z + itemWidth > containerDims.width + 0.01) break;
+    let z = 0;
+    for (const row of pattern.rows) {
+      const itemLength = row.itemOrientation === 'length' ? baseDims.length : baseDims.width;
+      const itemRotation = row.itemOrientation === 'length' ? 0 : 90;
 
+      for (let depthPos = 0; depthPos < row.itemsPerRow; depthPos++) {
+        for (let layer = 0; layer < maxLayers; layer++) {
           slots.push({
-            position: { x, y, z },
+            position: { x: depthPos * itemLength, y: layer * baseDims.height, z },
             dimensions: {
               length: itemLength,
-              width: itemWidth,
+              width: row.rowWidth,
               height: baseDims.height
             },
             rotation: itemRotation
           });
         }
       }
+
+      z += row.rowWidth;
     }
 
+    // Back-to-front filling: depth (X) first, then height (Y), then width (Z),
+    // so a partial load fills complete cross-sections from the front wall.
+    slots.sort((a, b) =>
+      a.position.x - b.position.x ||
+      a.position.y - b.position.y ||
+      a.position.z - b.position.z
+    );
+
     return slots;
   }
 
-  private static getAllOrientations(dims: IDimensions): IDimensions[] {
-    const allOrientations = [
-      { length: dims.length, width: dims.width, height: dims.height },
-      { length: dims.length, width: dims.height, height: dims.width },
-      { length: dims.width, width: dims.length, height: dims.height },
-      { length: dims.width, width: dims.height, height: dims.length },
-      { length: dims.height, width: dims.length, height: dims.width },
-      { length: dims.height, width: dims.width, height: dims.length }
-    ];
+  /**
+   * Lane mixes that fill the container width: for every number of lanes
+   * with the item lengthwise, as many turned lanes as fit beside them.
+   * Mixes that leave room for another lane are never better, so they are
+   * not listed.
+   */
+  private static generateRowMixes(footprint: IDimensions, containerDims: IDimensions): IRowPattern[][] {
+    const lengthRow: IRowPattern = {
+      rowWidth: footprint.width,
+      itemOrientation: 'length',
+      itemsPerRow: Math.floor((containerDims.length + this.EPSILON) / footprint.length)
+    };
+    const widthRow: IRowPattern = {
+      rowWidth: footprint.length,
+      itemOrientation: 'width',
+      itemsPerRow: Math.floor((containerDims.length + this.EPSILON) / footprint.width)
+    };
 
-    const seen = new Set<string>();
-    return allOrientations.filter((o) => {
-      const key = `${o.length},${o.width},${o.height}`;
-      if (seen.has(key)) return false;
-      seen.add(key);
-      return true;
-    });
+    const fitAcross = (row: IRowPattern, width: number) =>
+      row.itemsPerRow > 0 ? Math.floor((width + this.EPSILON) / row.rowWidth) : 0;
+
+    // A square footprint looks the same turned.
+    const canTurn = footprint.length !== footprint.width;
+    const maxLengthRows = fitAcross(lengthRow, containerDims.width);
+    const mixes: IRowPattern[][] = [];
+
+    for (let lengthRows = 0; lengthRows <= maxLengthRows; lengthRows++) {
+      const freeWidth = containerDims.width - lengthRows * lengthRow.rowWidth;
+      const widthRows = canTurn ? fitAcross(widthRow, freeWidth) : 0;
+      if (lengthRows + widthRows === 0) continue;
+
+      mixes.push([
+        ...Array.from({ length: lengthRows }, () => ({ ...lengthRow })),
+        ...Array.from({ length: widthRows }, () => ({ ...widthRow }))
+      ]);
+    }
+
+    return mixes;
   }
 }
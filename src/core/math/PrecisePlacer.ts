@@ -1,80 +1,112 @@
-import type { ICargoItem, IPlacedItem, IContainer } from '../types';
+import type { ICargoItem, IPlacedItem, IContainer, IUnplacedItem, PlacementCheck } from '../types';
 import type { IPlacementSlot } from './PatternGenerator';
 import { GeometryUtils } from './GeometryUtils';
+import { StackingRules } from './StackingRules';
+import { DeliverySequence } from './DeliverySequence';
+import { SpatialIndex } from './SpatialIndex';
+import { RejectionTracker } from '../strategies/RejectionTracker';
 
 export class PrecisePlacer {
   static placeItemsFromSlots(
     items: ICargoItem[],
     slots: IPlacementSlot[],
     container: IContainer,
-    placedItems: IPlacedItem[]
-  ): { placed: IPlacedItem[]; remaining: ICargoItem[] } {
+    placedItems: IPlacedItem[],
+    weightBudget: number = Infinity
+  ): { placed: IPlacedItem[]; remaining: IUnplacedItem[] } {
     const placed: IPlacedItem[] = [];
-    const remaining: ICargoItem[] = [];
+    const remaining: IUnplacedItem[] = [];
+    // Kept as one growing array so stacking state can be reused between slots.
+    const occupied = [...placedItems];
 
     let slotIndex = 0;
+    let remainingWeight = weightBudget;
 
     for (const item of items) {
-      if (slotIndex >= slots.length) {
-        remaining.push(item);
+      const itemWeight = item.weight || 0;
+
+      // Overweight items must not consume a slot, otherwise lighter items
+      // further down the group would be pushed out of the pattern.
+      if (itemWeight > remainingWeight) {
+        remaining.push(this.toUnplaced(item, 'payload'));
         continue;
       }
 
-      const slot = slots[slotIndex];
-
-      if (item.isPalletized && slot.position.y > 0.01) {
-        remaining.push(item);
+      if (slotIndex >= slots.length) {
+        remaining.push(this.toUnplaced(item, 'bounds'));
         continue;
       }
 
-      const isValid = this.validateSlot(slot, container, [...placedItems, ...placed]);
+      const slot = slots[slotIndex];
+
+      const failedCheck = this.validateSlot(slot, container, occupied, item);
 
-      if (isValid) {
-        placed.push({
+      if (!failedCheck) {
+        const placedItem: IPlacedItem = {
           itemId: item.id,
           item: item,
           position: slot.position,
           rotation: slot.rotation,
           dimensions: slot.dimensions,
           orientation: 'horizontal'
-        });
+        };
+        placed.push(placedItem);
+        occupied.push(placedItem);
         slotIndex++;
+        remainingWeight -= itemWeight;
       } else {
-        remaining.push(item);
+        remaining.push(this.toUnplaced(item, failedCheck));
       }
     }
 
     return { placed, remaining };
   }
 
+  private static toUnplaced(item: ICargoItem, check: PlacementCheck): IUnplacedItem {
+    return { itemId: item.id, item, ...RejectionTracker.toRejection(check) };
+  }
+
   private static validateSlot(
     slot: IPlacementSlot,
     container: IContainer,
-    placedItems: IPlacedItem[]
-  ): boolean {
+    placedItems: IPlacedItem[],
+    item: ICargoItem | null
+  ): PlacementCheck | null {
     if (!GeometryUtils.isWithinBounds(slot.position, slot.dimensions, container.dimensions)) {
-      return false;
+      return 'bounds';
     }
 
-    for (const other of placedItems) {
-      if (GeometryUtils.checkIntersection(
-        slot.position,
-        slot.dimensions,
-        other.position,
-        other.dimensions
-      )) {
-        return false;
-      }
+    const collides = GeometryUtils.intersectsObstacle(slot.position, slot.dimensions, container) ||
+      SpatialIndex.for(placedItems).some(slot.position, slot.dimensions, (other) =>
+        GeometryUtils.checkIntersection(slot.position, slot.dimensions, other.position, other.dimensions)
+      );
+    if (collides) {
+      return 'collision';
+    }
+
+    if (item && StackingRules.isPalletLoad(item)) {
+      const palletCheck = StackingRules.checkPalletStacking(item, slot.position, slot.dimensions, placedItems);
+      if (palletCheck) return palletCheck;
+    }
+
+    if (!StackingRules.canStackOn(slot.position, slot.dimensions, placedItems) ||
+        !StackingRules.canBearLoad(item, slot.position, slot.dimensions, placedItems)) {
+      return 'stacking';
+    }
+
+    if (item && !DeliverySequence.isBlockingFree(item, slot.position, slot.dimensions, placedItems)) {
+      return 'sequence';
     }
 
-    return true;
+    return null;
   }
 
   static canPlaceAtPosition(
     slot: IPlacementSlot,
     container: IContainer,
-    placedItems: IPlacedItem[]
+    placedItems: IPlacedItem[],
+    item: ICargoItem | null = null
   ): boolean {
-    return this.validateSlot(slot, container, placedItems);
+    return this.validateSlot(slot, container, placedItems, item) === null;
   }
 }
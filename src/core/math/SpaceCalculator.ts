@@ -1,8 +1,114 @@
-import type { IActiveLayer, IDimensions, IVector3 } from '../types';
+import type { FillOrder, IContainer, IDimensions, IObstacle, IPlacedItem, IVector3 } from '../types';
+import type { EmptySpace } from '../../types/optimization';
 
+interface ISpaceBox {
+  id: number;
+  min: IVector3;
+  max: IVector3;
+}
+
+interface ISpaceState {
+  count: number;
+  last: IPlacedItem | undefined;
+  container: IDimensions;
+  obstacles: IObstacle[] | undefined;
+  nextId: number;
+  spaces: ISpaceBox[];
+  points: IVector3[];
+  // Spaces containing each space corner and extreme point, in `spaces` order.
+  spacesAt: Map<IVector3, ISpaceBox[]>;
+  candidates: Partial<Record<FillOrder, IPlacementCandidate[]>>;
+}
+
+/**
+ * A position to try, with the empty spaces it lies in. An item placed there
+ * is clear of all other items if it stays within one of the spaces.
+ */
+export interface IPlacementCandidate {
+  position: IVector3;
+  spaces: EmptySpace[];
+}
+
+const AXES = ['x', 'y', 'z'] as const;
+
+/**
+ * Empty maximal spaces (EMS): the largest empty boxes left in the container,
+ * which may overlap each other. Every placement splits the spaces it cuts
+ * into at most six smaller ones and drops those contained in another, so an
+ * item fits at a position exactly when it fits in a space around it.
+ *
+ * Candidate positions are the space corners nearest the origin plus the
+ * extreme points next to, beside and on top of every placed item; both
+ * sets are kept up to date as items are placed. The container's obstacles
+ * are taken out of the spaces before the first item.
+ */
 export class SpaceCalculator {
-  static findAvailableSpaces(layer: IActiveLayer): IVector3[] {
-    return [];
+  private static readonly EPSILON = 0.001;
+  // Spaces thinner than this cannot hold any real item.
+  private static readonly MIN_SIZE = 0.01;
+
+  // Spaces per placed-items array. Placements only ever add items, so the
+  // state is updated incrementally with each newly placed item.
+  private static spaceStates = new WeakMap<IPlacedItem[], ISpaceState>();
+
+  /**
+   * Empty spaces left by `placedItems`, ordered by their corner nearest the
+   * origin: bottom first for 'floor', front wall first for 'wall'.
+   */
+  static getEmptySpaces(
+    placedItems: IPlacedItem[],
+    container: IContainer,
+    fillOrder: FillOrder = 'floor'
+  ): EmptySpace[] {
+    const state = this.getSpaceState(placedItems, container);
+
+    return this.sortByFillOrder(state.spaces, (space) => space.min, fillOrder)
+      .map((space) => this.toEmptySpace(space, container.dimensions));
+  }
+
+  /**
+   * Positions to try for the next item, in the same order as
+   * `getEmptySpaces`. Positions inside placed items are left out.
+   */
+  static getCandidatePositions(
+    placedItems: IPlacedItem[],
+    container: IContainer,
+    fillOrder: FillOrder = 'floor'
+  ): IPlacementCandidate[] {
+    const state = this.getSpaceState(placedItems, container);
+
+    let candidates = state.candidates[fillOrder];
+    if (!candidates) {
+      const positions = new Map<string, IVector3>();
+      for (const position of [...state.spaces.map((space) => space.min), ...state.points]) {
+        positions.set(`${position.x.toFixed(3)},${position.y.toFixed(3)},${position.z.toFixed(3)}`, position);
+      }
+
+      const spaces = new Map(state.spaces.map((space) => [space, this.toEmptySpace(space, container.dimensions)]));
+      candidates = this.sortByFillOrder(Array.from(positions.values()), (position) => position, fillOrder)
+        .map((position) => ({
+          position: { ...position },
+          spaces: state.spacesAt.get(position)!
+            .map((space) => spaces.get(space)!)
+        }))
+        .filter((candidate) => candidate.spaces.length > 0);
+      state.candidates[fillOrder] = candidates;
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Whether an item of `dimensions` placed at the candidate position stays
+   * within one of the spaces around it.
+   */
+  static fitsAt(candidate: IPlacementCandidate, dimensions: IDimensions): boolean {
+    const { position } = candidate;
+    return candidate.spaces.some((space) =>
+      position.x + dimensions.length <= space.position.x + space.dimensions.length + this.EPSILON &&
+      position.y + dimensions.height <= space.position.y + space.dimensions.height + this.EPSILON &&
+      position.z + dimensions.width <= space.position.z + space.dimensions.width + this.EPSILON
+    );
   }
 
   static calculateVolumeUtilization(
@@ -15,4 +121,199 @@ export class SpaceCalculator {
   static getItemVolume(dimensions: IDimensions): number {
     return dimensions.length * dimensions.width * dimensions.height;
   }
+
+  private static getSpaceState(placedItems: IPlacedItem[], container: IContainer): ISpaceState {
+    const containerDims = container.dimensions;
+    let state = this.spaceStates.get(placedItems);
+
+    const isStale = state !== undefined &&
+      (state.count > placedItems.length ||
+        placedItems[state.count - 1] !== state.last ||
+        state.container.length !== containerDims.length ||
+        state.container.width !== containerDims.width ||
+        state.container.height !== containerDims.height ||
+        state.obstacles !== container.obstacles);
+    if (!state || isStale) {
+      state = {
+        count: 0,
+        last: undefined,
+        container: containerDims,
+        obstacles: container.obstacles,
+        nextId: 1,
+        spaces: [{
+          id: 0,
+          min: { x: 0, y: 0, z: 0 },
+          max: { x: containerDims.length, y: containerDims.height, z: containerDims.width }
+        }],
+        points: [{ x: 0, y: 0, z: 0 }],
+        spacesAt: new Map(),
+        candidates: {}
+      };
+      for (const obstacle of container.obstacles ?? []) {
+        this.occupy(state, obstacle, new Set(), []);
+      }
+      this.updateSpacesAt(state, new Set(), []);
+      this.spaceStates.set(placedItems, state);
+    }
+
+    // Items placed since the last call, e.g. a whole pattern, are applied
+    // together and `spacesAt` is brought up to date once.
+    const cut = new Set<ISpaceBox>();
+    const created: ISpaceBox[] = [];
+    for (let i = state.count; i < placedItems.length; i++) {
+      this.occupy(state, placedItems[i], cut, created);
+    }
+    if (state.count < placedItems.length) {
+      this.updateSpacesAt(state, cut, created.filter((space) => !cut.has(space)));
+      state.candidates = {};
+    }
+
+    state.count = placedItems.length;
+    state.last = placedItems[placedItems.length - 1];
+    return state;
+  }
+
+  /**
+   * Replaces every space the item cuts by the parts of it on each side of
+   * the item, keeping only those that are not inside another space. The
+   * replaced spaces are added to `cut` and the new ones to `created`.
+   */
+  private static occupy(
+    state: ISpaceState,
+    placed: Pick<IPlacedItem, 'position' | 'dimensions'>,
+    cut: Set<ISpaceBox>,
+    created: ISpaceBox[]
+  ): void {
+    const min = placed.position;
+    const max = {
+      x: placed.position.x + placed.dimensions.length,
+      y: placed.position.y + placed.dimensions.height,
+      z: placed.position.z + placed.dimensions.width
+    };
+
+    const kept: ISpaceBox[] = [];
+    const parts: ISpaceBox[] = [];
+
+    for (const space of state.spaces) {
+      const overlaps = AXES.every((axis) =>
+        space.min[axis] < max[axis] - this.EPSILON && min[axis] < space.max[axis] - this.EPSILON
+      );
+      if (!overlaps) {
+        kept.push(space);
+        continue;
+      }
+
+      cut.add(space);
+
+      for (const axis of AXES) {
+        if (min[axis] - space.min[axis] >= this.MIN_SIZE) {
+          parts.push({ id: state.nextId++, min: space.min, max: { ...space.max, [axis]: min[axis] } });
+        }
+        if (space.max[axis] - max[axis] >= this.MIN_SIZE) {
+          parts.push({ id: state.nextId++, min: { ...space.min, [axis]: max[axis] }, max: space.max });
+        }
+      }
+    }
+
+    // A kept space is maximal and cannot lie inside a part of another
+    // space, so only the new parts need checking.
+    const maximal = parts.filter((space, index) =>
+      !kept.some((other) => this.contains(other, space)) &&
+      !parts.some((other, otherIndex) =>
+        otherIndex !== index && this.contains(other, space) &&
+        (!this.contains(space, other) || otherIndex < index)
+      )
+    );
+
+    state.spaces = [...kept, ...maximal];
+    state.points.push(
+      { x: max.x, y: min.y, z: min.z },
+      { x: min.x, y: min.y, z: max.z },
+      { x: min.x, y: max.y, z: min.z }
+    );
+    created.push(...maximal);
+  }
+
+  /**
+   * Brings `spacesAt` up to date after `cut` spaces were replaced by
+   * `created` ones. Spaces only ever shrink, so a known position can only
+   * have lost the cut spaces and gained some of the created ones; new
+   * positions are checked against all spaces.
+   */
+  private static updateSpacesAt(state: ISpaceState, cut: Set<ISpaceBox>, created: ISpaceBox[]): void {
+    const spacesAt = new Map<IVector3, ISpaceBox[]>();
+
+    for (const position of [...state.spaces.map((space) => space.min), ...state.points]) {
+      if (spacesAt.has(position)) continue;
+
+      const previous = state.spacesAt.get(position);
+      spacesAt.set(position, previous
+        ? [...previous.filter((space) => !cut.has(space)), ...created.filter((space) => this.isInside(position, space))]
+        : state.spaces.filter((space) => this.isInside(position, space)));
+    }
+
+    state.spacesAt = spacesAt;
+  }
+
+  /**
+   * Whether `point` lies in the space, counting its low faces but not the
+   * high ones. Written out per axis: it runs for every candidate and space.
+   */
+  private static isInside(point: IVector3, space: ISpaceBox): boolean {
+    const eps = this.EPSILON;
+    return point.x >= space.min.x - eps && point.x < space.max.x - eps &&
+      point.y >= space.min.y - eps && point.y < space.max.y - eps &&
+      point.z >= space.min.z - eps && point.z < space.max.z - eps;
+  }
+
+  private static contains(outer: ISpaceBox, inner: ISpaceBox): boolean {
+    return AXES.every((axis) =>
+      outer.min[axis] <= inner.min[axis] + this.EPSILON && inner.max[axis] <= outer.max[axis] + this.EPSILON
+    );
+  }
+
+  private static sortByFillOrder<T>(entries: T[], getCorner: (entry: T) => IVector3, fillOrder: FillOrder): T[] {
+    const primary = fillOrder === 'wall' ? 'x' : 'y';
+    const secondary = fillOrder === 'wall' ? 'y' : 'x';
+
+    return [...entries].sort((a, b) => {
+      const cornerA = getCorner(a);
+      const cornerB = getCorner(b);
+      return this.compare(cornerA[primary], cornerB[primary]) ||
+        this.compare(cornerA[secondary], cornerB[secondary]) ||
+        this.compare(cornerA.z, cornerB.z);
+    });
+  }
+
+  private static compare(a: number, b: number): number {
+    return Math.abs(a - b) <= this.EPSILON ? 0 : a - b;
+  }
+
+  /**
+   * Accessibility is judged from the door at x = container length: 'high'
+   * when the space reaches the door, 'medium' when it starts in the door
+   * half, 'low' deeper in.
+   */
+  private static toEmptySpace(space: ISpaceBox, containerDims: IDimensions): EmptySpace {
+    const dimensions = {
+      length: space.max.x - space.min.x,
+      width: space.max.z - space.min.z,
+      height: space.max.y - space.min.y
+    };
+
+    let accessibility: EmptySpace['accessibility'] = 'low';
+    if (space.max.x >= containerDims.length - this.EPSILON) {
+      accessibility = 'high';
+    } else if (space.min.x >= containerDims.length / 2) {
+      accessibility = 'medium';
+    }
+
+    return {
+      id: `ems-${space.id}`,
+      position: { ...space.min },
+      dimensions,
+      volume: dimensions.length * dimensions.width * dimensions.height,
+      accessibility
+    };
+  }
 }
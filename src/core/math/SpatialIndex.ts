@@ -0,0 +1,171 @@
+import type { IDimensions, IPlacedItem, ISpatialIndex, IVector3, RollKind } from '../types';
+import { GeometryUtils } from './GeometryUtils';
+
+/**
+ * Uniform grid over the bounding boxes of placed items, so placement checks
+ * only look at items near the candidate position. Queries return a superset
+ * of the items within reach, in placement order; callers still apply their
+ * exact geometry tests, which keeps results identical to checking every item.
+ *
+ * It also counts placed rolls by kind, because rolls of different kinds
+ * collide at any distance and no neighbour query would find them.
+ *
+ * An index follows one placed-items array: items appended since the last
+ * query are added before answering.
+ */
+export class SpatialIndex implements ISpatialIndex {
+  private static readonly CELL_SIZE = 0.5;
+  // Cell coordinates are offset so slightly negative positions still map
+  // to distinct, non-negative keys.
+  private static readonly CELL_OFFSET = 1;
+  private static readonly CELLS_PER_AXIS = 4096;
+
+  private static indexes = new WeakMap<IPlacedItem[], SpatialIndex>();
+
+  // Cell key -> positions in the placed-items array.
+  private cells = new Map<number, number[]>();
+  // Last query that reported each item, to report it once per query.
+  private stamps: number[] = [];
+  private stamp = 0;
+  // Placed rolls, in total and by kind.
+  private rollCount = 0;
+  private rollCounts: Record<RollKind, number> = { vertical: 0, 'horizontal-x': 0, 'horizontal-z': 0 };
+  private count = 0;
+  private last: IPlacedItem | undefined;
+
+  private constructor(private placedItems: IPlacedItem[]) {}
+
+  /**
+   * The index for `placedItems`, shared by everyone checking placements
+   * against the same array.
+   */
+  static for(placedItems: IPlacedItem[]): SpatialIndex {
+    let index = this.indexes.get(placedItems);
+    if (!index) {
+      index = new SpatialIndex(placedItems);
+      this.indexes.set(placedItems, index);
+    }
+    return index;
+  }
+
+  /**
+   * Items whose bounding boxes may come within `margin` of the box at
+   * `position`, limited to the first `before` items of the array.
+   */
+  query(position: IVector3, dimensions: IDimensions, margin = 0, before = Infinity): IPlacedItem[] {
+    const found: number[] = [];
+    this.visit(position, dimensions, margin, before, (i) => {
+      found.push(i);
+      return false;
+    });
+
+    return found.sort((a, b) => a - b).map((i) => this.placedItems[i]);
+  }
+
+  /**
+   * Whether `predicate` holds for any item `query` would return. Stops at
+   * the first match and does not sort, which makes it the cheaper choice
+   * for collision tests.
+   */
+  some(
+    position: IVector3,
+    dimensions: IDimensions,
+    predicate: (item: IPlacedItem) => boolean,
+    margin = 0
+  ): boolean {
+    return this.visit(position, dimensions, margin, Infinity, (i) => predicate(this.placedItems[i]));
+  }
+
+  countRollsNotOfKind(kind: RollKind): number {
+    this.sync();
+    return this.rollCount - this.rollCounts[kind];
+  }
+
+  /**
+   * Calls `visitor` once for every indexed item in the cells the box
+   * covers, until it returns true.
+   */
+  private visit(
+    position: IVector3,
+    dimensions: IDimensions,
+    margin: number,
+    before: number,
+    visitor: (index: number) => boolean
+  ): boolean {
+    this.sync();
+
+    const stamp = ++this.stamp;
+    const [minX, maxX, minY, maxY, minZ, maxZ] = this.getCellRange(position, dimensions, margin);
+    const perAxis = SpatialIndex.CELLS_PER_AXIS;
+
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        for (let z = minZ; z <= maxZ; z++) {
+          const cell = this.cells.get((x * perAxis + y) * perAxis + z);
+          if (!cell) continue;
+
+          for (const i of cell) {
+            if (i >= before || this.stamps[i] === stamp) continue;
+            this.stamps[i] = stamp;
+            if (visitor(i)) return true;
+          }
+        }
+      }
+    }
+
+    return false;
+  }
+
+  private sync(): void {
+    const items = this.placedItems;
+    const isStale = this.count > items.length || items[this.count - 1] !== this.last;
+    if (isStale) {
+      this.cells.clear();
+      this.stamps = [];
+      this.rollCount = 0;
+      this.rollCounts = { vertical: 0, 'horizontal-x': 0, 'horizontal-z': 0 };
+      this.count = 0;
+    }
+
+    const perAxis = SpatialIndex.CELLS_PER_AXIS;
+    for (let i = this.count; i < items.length; i++) {
+      const [minX, maxX, minY, maxY, minZ, maxZ] = this.getCellRange(items[i].position, items[i].dimensions, 0);
+      this.stamps[i] = 0;
+      if (items[i].item.type === 'roll') {
+        this.rollCount++;
+        this.rollCounts[GeometryUtils.getRollKind(items[i].dimensions, items[i].orientation)]++;
+      }
+
+      for (let x = minX; x <= maxX; x++) {
+        for (let y = minY; y <= maxY; y++) {
+          for (let z = minZ; z <= maxZ; z++) {
+            const key = (x * perAxis + y) * perAxis + z;
+            const cell = this.cells.get(key);
+            if (cell) {
+              cell.push(i);
+            } else {
+              this.cells.set(key, [i]);
+            }
+          }
+        }
+      }
+    }
+
+    this.count = items.length;
+    this.last = items[items.length - 1];
+  }
+
+  private getCellRange(position: IVector3, dimensions: IDimensions, margin: number): number[] {
+    const size = SpatialIndex.CELL_SIZE;
+    const toCell = (value: number) => Math.max(0, Math.floor(value / size) + SpatialIndex.CELL_OFFSET);
+
+    return [
+      toCell(position.x - margin),
+      toCell(position.x + dimensions.length + margin),
+      toCell(position.y - margin),
+      toCell(position.y + dimensions.height + margin),
+      toCell(position.z - margin),
+      toCell(position.z + dimensions.width + margin)
+    ];
+  }
+}
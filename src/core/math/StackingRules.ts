@@ -0,0 +1,234 @@
+import type { ICargoItem, IDimensions, IPlacedItem, IVector3, PlacementCheck } from '../types';
+import { GeometryUtils } from './GeometryUtils';
+import { SpatialIndex } from './SpatialIndex';
+
+interface ISupportShare {
+  support: IPlacedItem;
+  fraction: number;
+}
+
+interface IStackState {
+  count: number;
+  last: IPlacedItem | undefined;
+  supports: Map<IPlacedItem, ISupportShare[]>;
+  loads: Map<IPlacedItem, number>;
+  tiers: Map<IPlacedItem, number>;
+}
+
+/**
+ * What may be stacked on what. Fragile and non-stackable items never act as
+ * support. Load-bearing limits (`maxLoadOnTop`, `maxStackTiers`) are checked
+ * against the weight each item carries, passed down through the stack in
+ * proportion to the contact area with the items underneath.
+ */
+export class StackingRules {
+  private static readonly EPSILON = 0.01;
+
+  // Weight carried and tier of every placed item, per placed-items array.
+  // Placements only ever add on top, so the state is extended incrementally.
+  private static stackStates = new WeakMap<IPlacedItem[], IStackState>();
+
+  static canSupport(support: IPlacedItem): boolean {
+    return !support.item.fragile && support.item.stackable !== false;
+  }
+
+  /**
+   * Placed items the footprint at `position` would rest on. Besides items
+   * whose top is level with the bottom, this includes cylinders the item
+   * nests between, whose tops reach above its bottom.
+   */
+  static getItemsBelow(position: IVector3, dimensions: IDimensions, placedItems: IPlacedItem[]): IPlacedItem[] {
+    return SpatialIndex.for(placedItems)
+      .query(position, dimensions, this.EPSILON)
+      .filter((other) => this.getContactArea(position, dimensions, other) > 0);
+  }
+
+  static canStackOn(position: IVector3, dimensions: IDimensions, placedItems: IPlacedItem[]): boolean {
+    if (position.y <= this.EPSILON) return true;
+
+    return this.getItemsBelow(position, dimensions, placedItems).every((support) => this.canSupport(support));
+  }
+
+  /**
+   * Whether every item underneath, directly or through the stack, can take
+   * the added weight and the extra tier without exceeding its limits.
+   */
+  static canBearLoad(
+    item: ICargoItem | null,
+    position: IVector3,
+    dimensions: IDimensions,
+    placedItems: IPlacedItem[]
+  ): boolean {
+    if (position.y <= this.EPSILON) return true;
+
+    const shares = this.getSupportShares(position, dimensions, placedItems);
+    if (shares.length === 0) return true;
+
+    const state = this.getStackState(placedItems);
+    const tier = 1 + Math.max(...shares.map((s) => state.tiers.get(s.support) ?? 1));
+    if (item?.maxStackTiers !== undefined && tier > item.maxStackTiers) return false;
+
+    const added = this.passLoadDown(shares, item?.weight || 0, state);
+    for (const [support, load] of added) {
+      if (support.item.maxStackTiers !== undefined && tier > support.item.maxStackTiers) return false;
+
+      const limit = support.item.maxLoadOnTop;
+      if (limit !== undefined && (state.loads.get(support) ?? 0) + load > limit + this.EPSILON) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Pallets stand on the floor unless double-stacked: a pallet load may then
+   * rest on other pallet loads when it and all of them are
+   * `doubleStackable`, and its whole pallet must bear on their loads.
+   * Returns the failed check, or null when the pallet may stand there.
+   */
+  static checkPalletStacking(
+    item: ICargoItem,
+    position: IVector3,
+    dimensions: IDimensions,
+    placedItems: IPlacedItem[]
+  ): PlacementCheck | null {
+    if (position.y <= this.EPSILON) return null;
+    if (!item.doubleStackable) return 'floor';
+
+    const supports = this.getItemsBelow(position, dimensions, placedItems);
+    if (supports.some((support) => !this.isPalletLoad(support.item) || !support.item.doubleStackable)) {
+      return 'stacking';
+    }
+
+    let supportedArea = 0;
+    for (const support of supports) {
+      const top = GeometryUtils.getTopFace(support);
+      const overlapX = Math.min(position.x + dimensions.length, top.x + top.length) - Math.max(position.x, top.x);
+      const overlapZ = Math.min(position.z + dimensions.width, top.z + top.width) - Math.max(position.z, top.z);
+      if (overlapX > 0 && overlapZ > 0) supportedArea += overlapX * overlapZ;
+    }
+
+    const area = dimensions.length * dimensions.width;
+    return supportedArea >= area * (1 - this.EPSILON) ? null : 'support';
+  }
+
+  /**
+   * Whether a pattern may stack a group of identical items on top of each
+   * other. Pallet loads only stack when double-stackable.
+   */
+  static isFloorOnly(item: ICargoItem): boolean {
+    return this.isPalletLoad(item) && !item.doubleStackable;
+  }
+
+  static isPalletLoad(item: ICargoItem): boolean {
+    return item.type === 'pallet' || item.isPalletized === true;
+  }
+
+  /**
+   * Layers a pattern may stack for a group of identical items.
+   */
+  static getMaxLayers(item: ICargoItem): number {
+    if (item.fragile || item.stackable === false) return 1;
+
+    let layers = item.maxStackTiers ?? Infinity;
+    if (item.maxLoadOnTop !== undefined && item.weight) {
+      layers = Math.min(layers, Math.floor(item.maxLoadOnTop / item.weight) + 1);
+    }
+    return Math.max(1, layers);
+  }
+
+  /**
+   * Direct supports of a footprint among the first `before` placed items,
+   * each with its share of the contact area.
+   */
+  private static getSupportShares(
+    position: IVector3,
+    dimensions: IDimensions,
+    placedItems: IPlacedItem[],
+    before = Infinity
+  ): ISupportShare[] {
+    if (position.y <= this.EPSILON) return [];
+
+    const contacts = SpatialIndex.for(placedItems)
+      .query(position, dimensions, this.EPSILON, before)
+      .map((support) => ({ support, area: this.getContactArea(position, dimensions, support) }))
+      .filter((c) => c.area > 0);
+    const totalArea = contacts.reduce((acc, c) => acc + c.area, 0);
+
+    return contacts.map((c) => ({ support: c.support, fraction: c.area / totalArea }));
+  }
+
+  /**
+   * Weight added to every item below when `weight` rests on `shares`. Items
+   * are settled highest first: supports always sit lower than what they
+   * carry, so an item has received all of its load by the time it is taken.
+   */
+  private static passLoadDown(shares: ISupportShare[], weight: number, state: IStackState): Map<IPlacedItem, number> {
+    const added = new Map<IPlacedItem, number>();
+    const pending = new Map<IPlacedItem, number>();
+
+    for (const { support, fraction } of shares) {
+      pending.set(support, (pending.get(support) ?? 0) + weight * fraction);
+    }
+
+    while (pending.size > 0) {
+      let highest: IPlacedItem | undefined;
+      for (const candidate of pending.keys()) {
+        if (!highest || candidate.position.y > highest.position.y) highest = candidate;
+      }
+
+      const load = pending.get(highest!)!;
+      pending.delete(highest!);
+      added.set(highest!, load);
+
+      for (const { support, fraction } of state.supports.get(highest!) ?? []) {
+        pending.set(support, (pending.get(support) ?? 0) + load * fraction);
+      }
+    }
+
+    return added;
+  }
+
+  private static getStackState(placedItems: IPlacedItem[]): IStackState {
+    let state = this.stackStates.get(placedItems);
+
+    const isStale = state !== undefined &&
+      (state.count > placedItems.length || placedItems[state.count - 1] !== state.last);
+    if (!state || isStale) {
+      state = { count: 0, last: undefined, supports: new Map(), loads: new Map(), tiers: new Map() };
+      this.stackStates.set(placedItems, state);
+    }
+
+    for (let i = state.count; i < placedItems.length; i++) {
+      const placed = placedItems[i];
+      const shares = this.getSupportShares(placed.position, placed.dimensions, placedItems, i);
+
+      state.supports.set(placed, shares);
+      state.tiers.set(placed, 1 + Math.max(0, ...shares.map((s) => state!.tiers.get(s.support) ?? 1)));
+
+      for (const [support, load] of this.passLoadDown(shares, placed.item.weight || 0, state)) {
+        state.loads.set(support, (state.loads.get(support) ?? 0) + load);
+      }
+    }
+
+    state.count = placedItems.length;
+    state.last = placedItems[placedItems.length - 1];
+    return state;
+  }
+
+  /**
+   * Footprint overlap between an item at `position` and `other`, if `other`
+   * lies directly underneath it; 0 otherwise.
+   */
+  private static getContactArea(position: IVector3, dimensions: IDimensions, other: IPlacedItem): number {
+    const eps = this.EPSILON;
+    const otherTop = other.position.y + other.dimensions.height;
+    if (other.position.y >= position.y || otherTop < position.y - eps) return 0;
+
+    const overlapX = Math.min(position.x + dimensions.length, other.position.x + other.dimensions.length) -
+      Math.max(position.x, other.position.x);
+    const overlapZ = Math.min(position.z + dimensions.width, other.position.z + other.dimensions.width) -
+      Math.max(position.z, other.position.z);
+
+    return overlapX > eps && overlapZ > eps ? overlapX * overlapZ : 0;
+  }
+}
@@ -1,56 +1,102 @@
-import type { ICargoItem, IPackingContext, IVector3, IDimensions } from '../types';
-import type { IPackingStrategy } from './IPackingStrategy';
+import type { ICargoItem, IPackingContext, IPlacedItem, IVector3, IDimensions, IPlacementRejection, ItemAxis, PlacementCheck } from '../types';
+import type { IPackingStrategy, IPlacementResult } from './IPackingStrategy';
 import { GeometryUtils } from '../math/GeometryUtils';
 import { PatternGenerator } from '../math/PatternGenerator';
-
-interface CornerPoint {
-  position: IVector3;
-  score: number;
-}
+import { SpaceCalculator } from '../math/SpaceCalculator';
+import { StackingRules } from '../math/StackingRules';
+import { OrientationRules } from '../math/OrientationRules';
+import { DeliverySequence } from '../math/DeliverySequence';
+import { RejectionTracker } from './RejectionTracker';
 
 export class BoxStrategy implements IPackingStrategy {
+  // Reach of the support tests around a candidate position.
+  private static readonly NEIGHBOUR_MARGIN = 0.1;
+
+  private rejections = new RejectionTracker();
+
   findBestPosition(
     item: ICargoItem,
     context: IPackingContext
-  ): { position: IVector3; rotation: number; dimensions?: IDimensions } | null {
+  ): IPlacementResult | null {
+    return this.findCandidatePositions(item, context, 1)[0] ?? null;
+  }
+
+  findCandidatePositions(
+    item: ICargoItem,
+    context: IPackingContext,
+    limit: number
+  ): IPlacementResult[] {
     const { container, placedItems } = context;
     const itemDims = item.dimensions;
-    if (!itemDims) return null;
+    const candidates: IPlacementResult[] = [];
+    this.rejections.reset();
+
+    if (!itemDims) {
+      this.rejections.record('dimensions');
+      return candidates;
+    }
 
-    const patternResult = this.tryPatternBasedPlacement(item, context);
-    if (patternResult) return patternResult;
+    const verticalAxes = OrientationRules.getAllowedVerticalAxes(item);
+    const orientations = this.getOrientations(itemDims, item.palletDimensions, verticalAxes);
+    if (orientations.length === 0) {
+      this.rejections.record('orientation');
+      return candidates;
+    }
 
-    const cornerPoints = this.generateCornerPoints(placedItems, container.dimensions);
+    const fitsContainer = orientations.some((o) =>
+      GeometryUtils.isWithinBounds({ x: 0, y: 0, z: 0 }, o.dimensions, container.dimensions)
+    );
+    if (!fitsContainer) {
+      this.rejections.record('dimensions');
+      return candidates;
+    }
 
-    const orientations = this.getOrientations(itemDims, item.palletDimensions);
+    this.collectPatternPlacements(item, verticalAxes, context, candidates, limit);
+    if (candidates.length >= limit) return candidates;
 
-    for (const corner of cornerPoints) {
+    const candidatePositions = SpaceCalculator.getCandidatePositions(placedItems, container, context.fillOrder);
+
+    for (const candidate of candidatePositions) {
       for (const orientation of orientations) {
-        if (this.canPlaceAt(item, corner.position, orientation.dimensions, context)) {
-          return {
-            position: corner.position,
+        if (!SpaceCalculator.fitsAt(candidate, orientation.dimensions)) {
+          this.rejections.record('collision');
+          continue;
+        }
+
+        if (this.canPlaceAt(item, candidate.position, orientation.dimensions, context)) {
+          candidates.push({
+            position: candidate.position,
             rotation: orientation.rotation,
             dimensions: orientation.dimensions
-          };
+          });
+          if (candidates.length >= limit) return candidates;
         }
       }
     }
 
-    return null;
+    return candidates;
+  }
+
+  getLastRejection(): IPlacementRejection | null {
+    return this.rejections.getRejection();
   }
 
-  private tryPatternBasedPlacement(
+  private collectPatternPlacements(
     item: ICargoItem,
-    context: IPackingContext
-  ): { position: IVector3; rotation: number; dimensions: IDimensions } | null {
+    verticalAxes: ItemAxis[],
+    context: IPackingContext,
+    candidates: IPlacementResult[],
+    limit: number
+  ): void {
     const patterns = PatternGenerator.generateBoxPatterns(
       item.dimensions!,
       item.palletDimensions,
       context.container.dimensions,
-      1
+      1,
+      verticalAxes
     );
 
-    if (patterns.length === 0) return null;
+    if (patterns.length === 0) return;
 
     const bestPattern = patterns[0];
     const slots = PatternGenerator.generatePlacementSlots(
@@ -58,90 +104,30 @@ export class BoxStrategy implements IPackingStrategy {
       item.dimensions!,
       item.palletDimensions,
       context.container.dimensions,
-      item.isPalletized || false
+      StackingRules.isFloorOnly(item),
+      StackingRules.getMaxLayers(item)
     );
 
-    if (slots.length === 0) return null;
-
     for (const slot of slots) {
       if (this.canPlaceAt(item, slot.position, slot.dimensions, context)) {
-        return {
+        candidates.push({
           position: slot.position,
           rotation: slot.rotation,
           dimensions: slot.dimensions
-        };
-      }
-    }
-
-    return null;
-  }
-
-  private generateCornerPoints(placedItems: any[], containerDims: IDimensions): CornerPoint[] {
-    const corners: CornerPoint[] = [];
-
-    if (placedItems.length === 0) {
-      corners.push({
-        position: { x: 0, y: 0, z: 0 },
-        score: 0
-      });
-      return corners;
-    }
-
-    const pointSet = new Set<string>();
-
-    pointSet.add('0,0,0');
-
-    for (const item of placedItems) {
-      const pos = item.position;
-      const dims = item.dimensions;
-
-      const candidatePoints = [
-        { x: pos.x + dims.length, y: pos.y, z: pos.z },
-        { x: pos.x, y: pos.y, z: pos.z + dims.width },
-        { x: pos.x, y: pos.y + dims.height, z: pos.z },
-      ];
-
-      for (const point of candidatePoints) {
-        if (point.x <= containerDims.length &&
-            point.y <= containerDims.height &&
-            point.z <= containerDims.width) {
-          const key = `${point.x},${point.y},${point.z}`;
-          pointSet.add(key);
-        }
-      }
-    }
-
-    for (const key of pointSet) {
-      const [x, y, z] = key.split(',').map(Number);
-      const position = { x, y, z };
-
-      if (!this.isPointInsidePlacedItem(position, placedItems)) {
-        const score = y * 1000000 + x * 1000 + z;
-        corners.push({ position, score });
-      }
-    }
-
-    corners.sort((a, b) => a.score - b.score);
-
-    return corners;
-  }
-
-  private isPointInsidePlacedItem(point: IVector3, placedItems: any[]): boolean {
-    for (const item of placedItems) {
-      const pos = item.position;
-      const dims = item.dimensions;
-
-      if (point.x > pos.x && point.x < pos.x + dims.length &&
-          point.y > pos.y && point.y < pos.y + dims.height &&
-          point.z > pos.z && point.z < pos.z + dims.width) {
-        return true;
+        });
+        if (candidates.length >= limit) return;
       }
     }
-    return false;
   }
 
-  private getOrientations(dims: IDimensions, palletDims?: IDimensions): Array<{ rotation: number; dimensions: IDimensions }> {
+  private getOrientations(
+    dims: IDimensions,
+    palletDims: IDimensions | undefined,
+    verticalAxes: ItemAxis[]
+  ): Array<{ rotation: number; dimensions: IDimensions }> {
     if (palletDims) {
+      if (!verticalAxes.includes('height')) return [];
+
       const totalHeight = dims.height + palletDims.height;
       const allOrientations = [
         { rotation: 0, dimensions: { length: palletDims.length, width: palletDims.width, height: totalHeight } },
@@ -159,22 +145,8 @@ export class BoxStrategy implements IPackingStrategy {
       return uniqueOrientations;
     }
 
-    const allOrientations = [
-      { rotation: 0, dimensions: { length: dims.length, width: dims.width, height: dims.height } },
-      { rotation: 0, dimensions: { length: dims.length, width: dims.height, height: dims.width } },
-      { rotation: 0, dimensions: { length: dims.width, width: dims.length, height: dims.height } },
-      { rotation: 0, dimensions: { length: dims.width, width: dims.height, height: dims.length } },
-      { rotation: 0, dimensions: { length: dims.height, width: dims.length, height: dims.width } },
-      { rotation: 0, dimensions: { length: dims.height, width: dims.width, height: dims.length } }
-    ];
-
-    const seen = new Set<string>();
-    const uniqueOrientations = allOrientations.filter((o) => {
-      const key = `${o.dimensions.length},${o.dimensions.width},${o.dimensions.height}`;
-      if (seen.has(key)) return false;
-      seen.add(key);
-      return true;
-    });
+    const uniqueOrientations = OrientationRules.getOrientations(dims, verticalAxes)
+      .map((o) => ({ rotation: 0, dimensions: o.dimensions }));
 
     uniqueOrientations.sort((a, b) => {
       const heightDiff = a.dimensions.height - b.dimensions.height;
@@ -194,28 +166,55 @@ export class BoxStrategy implements IPackingStrategy {
     dimensions: IDimensions,
     context: IPackingContext
   ): boolean {
+    const failedCheck = this.checkPlacement(item, position, dimensions, context);
+    if (failedCheck) {
+      this.rejections.record(failedCheck);
+      return false;
+    }
+    return true;
+  }
+
+  private checkPlacement(
+    item: ICargoItem,
+    position: IVector3,
+    dimensions: IDimensions,
+    context: IPackingContext
+  ): PlacementCheck | null {
     const { container, placedItems } = context;
 
-    if (!GeometryUtils.isWithinBounds(position, dimensions, container.dimensions)) return false;
+    if (!GeometryUtils.isWithinBounds(position, dimensions, container.dimensions)) return 'bounds';
 
-    if (item.isPalletized && position.y > 0.01) {
-      return false;
+    const collides = GeometryUtils.intersectsObstacle(position, dimensions, container) ||
+      context.spatialIndex.some(position, dimensions, (other) =>
+        GeometryUtils.checkIntersection(position, dimensions, other.position, other.dimensions)
+      );
+    if (collides) {
+      return 'collision';
     }
 
-    for (const other of placedItems) {
-      if (GeometryUtils.checkIntersection(position, dimensions, other.position, other.dimensions)) {
-        return false;
-      }
+    if (item.isPalletized) {
+      const palletCheck = StackingRules.checkPalletStacking(item, position, dimensions, placedItems);
+      if (palletCheck) return palletCheck;
     }
 
-    if (position.y > 0.01 && !this.hasSupport(position, dimensions, placedItems)) {
-      return false;
+    if (position.y > 0.01 &&
+        !this.hasSupport(position, dimensions, context.spatialIndex.query(position, dimensions, BoxStrategy.NEIGHBOUR_MARGIN))) {
+      return 'support';
     }
 
-    return true;
+    if (!StackingRules.canStackOn(position, dimensions, placedItems) ||
+        !StackingRules.canBearLoad(item, position, dimensions, placedItems)) {
+      return 'stacking';
+    }
+
+    if (context.respectDeliveryOrder && !DeliverySequence.isBlockingFree(item, position, dimensions, placedItems)) {
+      return 'sequence';
+    }
+
+    return null;
   }
 
-  private hasSupport(pos: IVector3, dims: IDimensions, placedItems: any[]): boolean {
+  private hasSupport(pos: IVector3, dims: IDimensions, placedItems: IPlacedItem[]): boolean {
     const supportThreshold = 0.75;
     const boxBottomArea = dims.length * dims.width;
     let supportedArea = 0;
@@ -1,15 +1,37 @@
-import type { ICargoItem, IPackingContext, IVector3 } from '../types';
+import type { ICargoItem, IDimensions, IPackingContext, IPlacementRejection, IVector3, RollOrientation } from '../types';
+
+export interface IPlacementResult {
+  position: IVector3;
+  rotation: number;
+  dimensions: IDimensions;
+  orientation?: RollOrientation;
+}
 
 export interface IPackingStrategy {
   findBestPosition(
     item: ICargoItem,
     context: IPackingContext
-  ): { position: IVector3; rotation: number; orientation?: string } | null;
+  ): IPlacementResult | null;
+
+  /**
+   * Valid placements in the strategy's order of preference, up to `limit`.
+   * The first entry is what `findBestPosition` returns.
+   */
+  findCandidatePositions(
+    item: ICargoItem,
+    context: IPackingContext,
+    limit: number
+  ): IPlacementResult[];
 
   canPlaceAt(
     item: ICargoItem,
     position: IVector3,
-    rotation: number,
+    dimensions: IDimensions,
     context: IPackingContext
   ): boolean;
+
+  /**
+   * Explains the most recent `findBestPosition` call that returned null.
+   */
+  getLastRejection(): IPlacementRejection | null;
 }
@@ -1,16 +1,43 @@
-import type { ICargoItem, IPackingContext, IVector3, IDimensions } from '../types';
-import type { IPackingStrategy } from './IPackingStrategy';
+import type { ICargoItem, IPackingContext, IVector3, IDimensions, IPlacementRejection, PlacementCheck } from '../types';
+import type { IPackingStrategy, IPlacementResult } from './IPackingStrategy';
 import { GeometryUtils } from '../math/GeometryUtils';
 import { PatternGenerator } from '../math/PatternGenerator';
+import { SpaceCalculator } from '../math/SpaceCalculator';
+import { StackingRules } from '../math/StackingRules';
+import { OrientationRules } from '../math/OrientationRules';
+import { DeliverySequence } from '../math/DeliverySequence';
+import { RejectionTracker } from './RejectionTracker';
 
 export class PalletStrategy implements IPackingStrategy {
+  private rejections = new RejectionTracker();
+
   findBestPosition(
     item: ICargoItem,
     context: IPackingContext
-  ): { position: IVector3; rotation: number; dimensions?: IDimensions } | null {
+  ): IPlacementResult | null {
+    return this.findCandidatePositions(item, context, 1)[0] ?? null;
+  }
+
+  findCandidatePositions(
+    item: ICargoItem,
+    context: IPackingContext,
+    limit: number
+  ): IPlacementResult[] {
     const { container } = context;
     const itemDims = item.dimensions;
-    if (!itemDims) return null;
+    const candidates: IPlacementResult[] = [];
+    this.rejections.reset();
+
+    if (!itemDims) {
+      this.rejections.record('dimensions');
+      return candidates;
+    }
+
+    // Pallets are only ever loaded standing on their base.
+    if (!OrientationRules.allowsVerticalAxis(item, 'height')) {
+      this.rejections.record('orientation');
+      return candidates;
+    }
 
     let baseDims = itemDims;
     if (item.palletDimensions) {
@@ -24,8 +51,11 @@ export class PalletStrategy implements IPackingStrategy {
     const tryPatternBased = context.placedItems.length === 0;
 
     if (tryPatternBased) {
-      const patternResult = this.tryPatternBasedPlacement(item, baseDims, context);
-      if (patternResult) return patternResult;
+      const patternResult = this.tryPatternBasedPlacement(item, context);
+      if (patternResult) {
+        candidates.push(patternResult);
+        if (candidates.length >= limit) return candidates;
+      }
     }
 
     const orientations = [
@@ -33,37 +63,48 @@ export class PalletStrategy implements IPackingStrategy {
       { rotation: 90, dimensions: { length: baseDims.width, width: baseDims.length, height: baseDims.height } }
     ];
 
-    const step = 0.5;
-
-    for (const orientation of orientations) {
-      const maxX = container.dimensions.length - orientation.dimensions.length;
-      const maxZ = container.dimensions.width - orientation.dimensions.width;
+    const fitsContainer = orientations.some((o) =>
+      GeometryUtils.isWithinBounds({ x: 0, y: 0, z: 0 }, o.dimensions, container.dimensions)
+    );
+    if (!fitsContainer) {
+      this.rejections.record('dimensions');
+      return candidates;
+    }
 
-      if (maxX < 0 || maxZ < 0) continue;
+    // Pallets stand on the floor, so only spaces starting there are used,
+    // unless the pallet may be double-stacked.
+    const positions = SpaceCalculator.getCandidatePositions(context.placedItems, container, context.fillOrder)
+      .filter((candidate) => item.doubleStackable || candidate.position.y <= 0.01);
 
-      for (let x = 0; x <= maxX; x += step) {
-        for (let z = 0; z <= maxZ; z += step) {
-          const candidatePos = { x, y: 0, z };
+    for (const candidate of positions) {
+      for (const orientation of orientations) {
+        if (!SpaceCalculator.fitsAt(candidate, orientation.dimensions)) {
+          this.rejections.record('collision');
+          continue;
+        }
 
-          if (this.canPlaceAt(item, candidatePos, orientation.dimensions, context)) {
-            return {
-              position: candidatePos,
-              rotation: orientation.rotation,
-              dimensions: orientation.dimensions
-            };
-          }
+        if (this.canPlaceAt(item, candidate.position, orientation.dimensions, context)) {
+          candidates.push({
+            position: candidate.position,
+            rotation: orientation.rotation,
+            dimensions: orientation.dimensions
+          });
+          if (candidates.length >= limit) return candidates;
         }
       }
     }
 
-    return null;
+    return candidates;
+  }
+
+  getLastRejection(): IPlacementRejection | null {
+    return this.rejections.getRejection();
   }
 
   private tryPatternBasedPlacement(
     item: ICargoItem,
-    baseDims: IDimensions,
     context: IPackingContext
-  ): { position: IVector3; rotation: number; dimensions: IDimensions } | null {
+  ): IPlacementResult | null {
     const patterns = PatternGenerator.generatePalletPatterns(
       item.dimensions!,
       item.palletDimensions,
@@ -79,7 +120,8 @@ export class PalletStrategy implements IPackingStrategy {
       item.dimensions!,
       item.palletDimensions,
       context.container.dimensions,
-      item.isPalletized || false
+      StackingRules.isFloorOnly(item),
+      StackingRules.getMaxLayers(item)
     );
 
     if (slots.length === 0) return null;
@@ -103,25 +145,48 @@ export class PalletStrategy implements IPackingStrategy {
     dimensions: IDimensions,
     context: IPackingContext
   ): boolean {
+    const failedCheck = this.checkPlacement(item, position, dimensions, context);
+    if (failedCheck) {
+      this.rejections.record(failedCheck);
+      return false;
+    }
+    return true;
+  }
+
+  private checkPlacement(
+    item: ICargoItem,
+    position: IVector3,
+    dimensions: IDimensions,
+    context: IPackingContext
+  ): PlacementCheck | null {
     const { container, placedItems } = context;
 
     if (!GeometryUtils.isWithinBounds(position, dimensions, container.dimensions)) {
-      return false;
+      return 'bounds';
     }
 
-    if (item.isPalletized && position.y > 0.01) {
-      return false;
+    const collides = GeometryUtils.intersectsObstacle(position, dimensions, container) ||
+      context.spatialIndex.some(position, dimensions, (other) =>
+        GeometryUtils.checkIntersection(position, dimensions, other.position, other.dimensions)
+      );
+    if (collides) {
+      return 'collision';
     }
 
-    for (const other of placedItems) {
-      if (GeometryUtils.checkIntersection(
-        position, dimensions,
-        other.position, other.dimensions
-      )) {
-        return false;
-      }
+    const palletCheck = StackingRules.checkPalletStacking(item, position, dimensions, placedItems);
+    if (palletCheck) {
+      return palletCheck;
     }
 
-    return true;
+    if (!StackingRules.canStackOn(position, dimensions, placedItems) ||
+        !StackingRules.canBearLoad(item, position, dimensions, placedItems)) {
+      return 'stacking';
+    }
+
+    if (context.respectDeliveryOrder && !DeliverySequence.isBlockingFree(item, position, dimensions, placedItems)) {
+      return 'sequence';
+    }
+
+    return null;
   }
 }
@@ -0,0 +1,42 @@
+import type { IPlacementRejection, PlacementCheck, UnplacedReason } from '../types';
+
+const CHECK_ORDER: PlacementCheck[] = ['orientation', 'dimensions', 'bounds', 'floor', 'collision', 'support', 'stacking', 'sequence', 'payload'];
+
+const CHECK_REASONS: Record<PlacementCheck, UnplacedReason> = {
+  orientation: 'constraint_violation',
+  dimensions: 'dimension_mismatch',
+  bounds: 'insufficient_space',
+  floor: 'constraint_violation',
+  collision: 'insufficient_space',
+  support: 'constraint_violation',
+  stacking: 'constraint_violation',
+  sequence: 'constraint_violation',
+  payload: 'weight_limit_exceeded',
+};
+
+/**
+ * Remembers the closest failing check across all candidates tried for one
+ * item, so a rejected item can be explained by the check it nearly passed.
+ */
+export class RejectionTracker {
+  private closest: PlacementCheck | null = null;
+
+  reset(): void {
+    this.closest = null;
+  }
+
+  record(check: PlacementCheck): void {
+    if (this.closest === null || CHECK_ORDER.indexOf(check) > CHECK_ORDER.indexOf(this.closest)) {
+      this.closest = check;
+    }
+  }
+
+  getRejection(): IPlacementRejection | null {
+    if (this.closest === null) return null;
+    return RejectionTracker.toRejection(this.closest);
+  }
+
+  static toRejection(check: PlacementCheck): IPlacementRejection {
+    return { reason: CHECK_REASONS[check], check };
+  }
+}
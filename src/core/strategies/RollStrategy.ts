@@ -1,11 +1,17 @@
-import type { ICargoItem, IPackingContext, IVector3, IDimensions, IPlacedItem, RollOrientation } from '../types';
-import type { IPackingStrategy } from './IPackingStrategy';
+import type { ICargoItem, IPackingContext, IVector3, IDimensions, IPlacedItem, RollOrientation, IPlacementRejection, PlacementCheck, FillOrder } from '../types';
+import type { IPackingStrategy, IPlacementResult } from './IPackingStrategy';
 import { GeometryUtils } from '../math/GeometryUtils';
+import { StackingRules } from '../math/StackingRules';
+import { OrientationRules } from '../math/OrientationRules';
+import { DeliverySequence } from '../math/DeliverySequence';
+import { RejectionTracker } from './RejectionTracker';
 
 interface CandidatePoint {
   position: IVector3;
   score: number;
-  type: 'corner' | 'groove' | 'lattice';
+  type: 'corner' | 'groove' | 'lattice' | 'tangent';
+  /** Groove points only suit lying rolls along the groove: 0 along x, 90 along z. */
+  rotation?: number;
 }
 
 interface OrientationOption {
@@ -15,13 +21,27 @@ interface OrientationOption {
 }
 
 export class RollStrategy implements IPackingStrategy {
-  
+  // Reach of the support tests around a candidate position.
+  private static readonly NEIGHBOUR_MARGIN = 0.1;
+
+  private rejections = new RejectionTracker();
+
   findBestPosition(
     item: ICargoItem,
     context: IPackingContext
-  ): { position: IVector3; rotation: number; orientation: string; dimensions: IDimensions } | null {
+  ): IPlacementResult | null {
+    return this.findCandidatePositions(item, context, 1)[0] ?? null;
+  }
+
+  findCandidatePositions(
+    item: ICargoItem,
+    context: IPackingContext,
+    limit: number
+  ): IPlacementResult[] {
     const { container, placedItems } = context;
-    
+    const candidates: IPlacementResult[] = [];
+    this.rejections.reset();
+
     // 1. Determine Dimensions
     let rollDiameter = 0;
     let rollLength = 0;
@@ -33,7 +53,8 @@ export class RollStrategy implements IPackingStrategy {
       rollDiameter = Math.min(item.dimensions.length, item.dimensions.width);
       rollLength = item.dimensions.height;
     } else {
-      return null;
+      this.rejections.record('dimensions');
+      return candidates;
     }
 
     if (item.palletDimensions) {
@@ -42,70 +63,95 @@ export class RollStrategy implements IPackingStrategy {
       rollLength = totalHeight; 
     }
 
-    const orientations = this.getOrientations(rollDiameter, rollLength, item.isPalletized);
+    const orientations = this.getOrientations(rollDiameter, rollLength, item.isPalletized)
+      .filter((o) => OrientationRules.allowsRollOrientation(item, o.orientation, rollDiameter, rollLength));
+    if (orientations.length === 0) {
+      this.rejections.record('orientation');
+      return candidates;
+    }
+
+    const fitsContainer = orientations.some((o) =>
+      GeometryUtils.isWithinBounds({ x: 0, y: 0, z: 0 }, o.dimensions, container.dimensions)
+    );
+    if (!fitsContainer) {
+      this.rejections.record('dimensions');
+      return candidates;
+    }
 
     // 2. Generate Points (Forcing Lattice Logic)
-    const candidatePoints = this.generateCandidatePoints(placedItems, container.dimensions, rollDiameter, rollLength);
+    const candidatePoints = this.generateCandidatePoints(placedItems, container.dimensions, rollDiameter, rollLength, context.fillOrder);
 
     // 3. Find Best Fit
     for (const point of candidatePoints) {
       for (const orient of orientations) {
         
-        // FORCED LATTICE POINTS:
+        // FORCED LATTICE, TANGENT AND GROOVE POINTS:
         // Use them exactly as calculated. Do NOT optimize/nudge them.
         // Nudging pushes them back into a grid, which we want to avoid.
-        if (point.type === 'lattice') {
-             if (this.canPlaceAt(null, point.position, orient, context)) {
-                 return {
+        if (point.type === 'groove' && (orient.orientation !== 'horizontal' || orient.rotation !== point.rotation)) {
+          continue;
+        }
+        if (point.type === 'tangent' && orient.orientation !== 'vertical') continue;
+
+        if (point.type !== 'corner') {
+             if (this.canPlaceAt(item, point.position, orient.dimensions, context, orient.orientation)) {
+                 candidates.push({
                    position: point.position,
                    rotation: orient.rotation,
                    orientation: orient.orientation,
                    dimensions: orient.dimensions
-                 };
+                 });
+                 if (candidates.length >= limit) return candidates;
              }
         } else {
              // Standard corners (fallback) -> Try Nudge
-             const finalPos = this.tryNudgePosition(point.position, orient, context);
+             const finalPos = this.tryNudgePosition(item, point.position, orient, context);
              if (finalPos) {
-                return {
+                candidates.push({
                   position: finalPos,
                   rotation: orient.rotation,
                   orientation: orient.orientation,
                   dimensions: orient.dimensions
-                };
+                });
+                if (candidates.length >= limit) return candidates;
              }
         }
       }
     }
 
-    return null;
+    return candidates;
+  }
+
+  getLastRejection(): IPlacementRejection | null {
+    return this.rejections.getRejection();
   }
 
   private tryNudgePosition(
+    item: ICargoItem,
     startPos: IVector3,
     orient: OrientationOption,
     context: IPackingContext
   ): IVector3 | null {
-    if (this.canPlaceAt(null, startPos, orient, context)) {
-      return this.optimizeCoordinate(startPos, orient, context);
+    if (this.canPlaceAt(item, startPos, orient.dimensions, context, orient.orientation)) {
+      return this.optimizeCoordinate(item, startPos, orient, context);
     }
     return null;
   }
 
   // Generic gravity slide for non-lattice points
-  private optimizeCoordinate(pos: IVector3, orient: OrientationOption, context: IPackingContext): IVector3 {
+  private optimizeCoordinate(item: ICargoItem, pos: IVector3, orient: OrientationOption, context: IPackingContext): IVector3 {
     let bestPos = { ...pos };
     const step = 0.05; 
     
     while (bestPos.z - step >= 0) {
       const testPos = { ...bestPos, z: bestPos.z - step };
-      if (this.canPlaceAt(null, testPos, orient, context)) {
+      if (this.canPlaceAt(item, testPos, orient.dimensions, context, orient.orientation)) {
         bestPos = testPos;
       } else { break; }
     }
     while (bestPos.x - step >= 0) {
       const testPos = { ...bestPos, x: bestPos.x - step };
-      if (this.canPlaceAt(null, testPos, orient, context)) {
+      if (this.canPlaceAt(item, testPos, orient.dimensions, context, orient.orientation)) {
         bestPos = testPos;
       } else { break; }
     }
@@ -143,27 +189,30 @@ export class RollStrategy implements IPackingStrategy {
     placedItems: IPlacedItem[], 
     containerDims: IDimensions,
     currentDiameter: number,
-    currentLength: number
+    currentLength: number,
+    fillOrder: FillOrder = 'floor'
   ): CandidatePoint[] {
     const points: CandidatePoint[] = [];
     const pointSet = new Set<string>();
 
-    const addPoint = (x: number, y: number, z: number, type: 'corner' | 'groove' | 'lattice') => {
+    const addPoint = (x: number, y: number, z: number, type: CandidatePoint['type'], rotation?: number) => {
       // Safety bounds
       if (x < -0.01 || y < -0.01 || z < -0.01) return;
       if (x > containerDims.length || y > containerDims.height || z > containerDims.width) return;
 
-      const key = `${x.toFixed(2)},${y.toFixed(2)},${z.toFixed(2)}`;
+      const key = `${x.toFixed(2)},${y.toFixed(2)},${z.toFixed(2)},${rotation ?? ''}`;
       if (!pointSet.has(key)) {
         pointSet.add(key);
         
         // PRIORITY SCORING
-        let score = (y * 10000) + (z * 100) + x;
+        let score = fillOrder === 'wall'
+          ? (x * 10000) + (y * 100) + z
+          : (y * 10000) + (z * 100) + x;
         
-        // Lattice points get SUPER priority (-1M) so they are checked BEFORE grid points (0)
-        if (type === 'lattice') score -= 1000000; 
+        // Lattice and tangent points get SUPER priority (-1M) so they are checked BEFORE grid points (0)
+        if (type === 'lattice' || type === 'tangent') score -= 1000000; 
         
-        points.push({ position: { x, y, z }, score, type });
+        points.push({ position: { x, y, z }, score, type, rotation });
       }
     };
 
@@ -171,7 +220,14 @@ export class RollStrategy implements IPackingStrategy {
     // This forces the algorithm to try the "HoneyComb" pattern first.
     this.generateFixedHexPoints(containerDims, currentDiameter, currentLength, addPoint);
 
-    // 2. Standard Grid Corners (Fallback)
+    // 2. Tangent to the walls and upright rolls of any diameter, where
+    // rolls of other diameters no longer line up with the lattice
+    this.generateTangentPoints(placedItems, containerDims, currentDiameter, addPoint);
+
+    // 3. Grooves between lying rolls, for pyramid stacking
+    this.generateGroovePoints(placedItems, currentDiameter, addPoint);
+
+    // 4. Standard Grid Corners (Fallback)
     addPoint(0, 0, 0, 'corner');
     for (const item of placedItems) {
       const pos = item.position;
@@ -231,43 +287,188 @@ export class RollStrategy implements IPackingStrategy {
     }
   }
 
+  /**
+   * Floor positions where an upright roll of `diameter` touches two of: the
+   * container walls and the upright rolls standing on the floor, whatever
+   * their diameter. Rolls tangent to their neighbours leave the least
+   * floor uncovered, so a mixed order still packs densely.
+   */
+  private generateTangentPoints(
+    placedItems: IPlacedItem[],
+    container: IDimensions,
+    diameter: number,
+    addPoint: (x: number, y: number, z: number, type: 'tangent') => void
+  ) {
+    const radius = diameter / 2;
+    const addCentre = (cx: number, cz: number) => addPoint(cx - radius, 0, cz - radius, 'tangent');
+
+    // Centre lines of a roll touching each wall: front, back, and the sides.
+    const wallsX = [radius, container.length - radius];
+    const wallsZ = [radius, container.width - radius];
+
+    for (const cx of wallsX) {
+      for (const cz of wallsZ) addCentre(cx, cz);
+    }
+
+    const circles = placedItems
+      .filter((placed) => placed.item.type === 'roll' && placed.orientation !== 'horizontal' && placed.position.y <= 0.01)
+      .map((placed) => {
+        const r = placed.dimensions.length / 2;
+        return { x: placed.position.x + r, z: placed.position.z + r, reach: r + radius };
+      });
+
+    for (const circle of circles) {
+      for (const cz of wallsZ) {
+        const dz = cz - circle.z;
+        if (Math.abs(dz) > circle.reach) continue;
+        const dx = Math.sqrt(circle.reach * circle.reach - dz * dz);
+        addCentre(circle.x - dx, cz);
+        addCentre(circle.x + dx, cz);
+      }
+      for (const cx of wallsX) {
+        const dx = cx - circle.x;
+        if (Math.abs(dx) > circle.reach) continue;
+        const dz = Math.sqrt(circle.reach * circle.reach - dx * dx);
+        addCentre(cx, circle.z - dz);
+        addCentre(cx, circle.z + dz);
+      }
+    }
+
+    for (let i = 0; i < circles.length; i++) {
+      for (let j = i + 1; j < circles.length; j++) {
+        const a = circles[i];
+        const b = circles[j];
+        const dx = b.x - a.x;
+        const dz = b.z - a.z;
+        const dist = Math.sqrt(dx * dx + dz * dz);
+        if (dist === 0 || dist > a.reach + b.reach || dist < Math.abs(a.reach - b.reach)) continue;
+
+        const along = (a.reach * a.reach - b.reach * b.reach + dist * dist) / (2 * dist);
+        const across = Math.sqrt(Math.max(0, a.reach * a.reach - along * along));
+        const midX = a.x + (along * dx) / dist;
+        const midZ = a.z + (along * dz) / dist;
+        addCentre(midX - (across * dz) / dist, midZ + (across * dx) / dist);
+        addCentre(midX + (across * dz) / dist, midZ - (across * dx) / dist);
+      }
+    }
+  }
+
+  /**
+   * Valleys between two lying rolls side by side along the same axis: where
+   * a lying roll of `diameter` touches both from above, so upper tiers nest
+   * between the rolls below instead of standing on a single one.
+   */
+  private generateGroovePoints(
+    placedItems: IPlacedItem[],
+    diameter: number,
+    addPoint: (x: number, y: number, z: number, type: 'groove', rotation: number) => void
+  ) {
+    const radius = diameter / 2;
+    const lyingRolls = placedItems
+      .filter((placed) => placed.item.type === 'roll' && placed.orientation === 'horizontal')
+      .map((placed) => GeometryUtils.getRollCrossSection(placed.position, placed.dimensions));
+
+    for (let i = 0; i < lyingRolls.length; i++) {
+      for (let j = i + 1; j < lyingRolls.length; j++) {
+        const a = lyingRolls[i];
+        const b = lyingRolls[j];
+        if (a.axis !== b.axis) continue;
+
+        const start = Math.max(a.start, b.start);
+        if (start >= Math.min(a.start + a.length, b.start + b.length)) continue;
+
+        // The groove centre is where circles grown by the new radius around
+        // both cross-sections meet; of the two crossings, the upper one.
+        const reachA = a.radius + radius;
+        const reachB = b.radius + radius;
+        const du = b.u - a.u;
+        const dv = b.v - a.v;
+        const dist = Math.sqrt(du * du + dv * dv);
+        if (dist === 0 || dist > reachA + reachB || dist < Math.abs(reachA - reachB)) continue;
+
+        const along = (reachA * reachA - reachB * reachB + dist * dist) / (2 * dist);
+        const across = Math.sqrt(Math.max(0, reachA * reachA - along * along));
+        const midU = a.u + (along * du) / dist;
+        const midV = a.v + (along * dv) / dist;
+        const offsetU = (across * dv) / dist;
+        const offsetV = (across * du) / dist;
+        const [u, v] = midV + offsetV >= midV - offsetV
+          ? [midU - offsetU, midV + offsetV]
+          : [midU + offsetU, midV - offsetV];
+
+        // Only a valley between the two holds the roll.
+        if (u <= Math.min(a.u, b.u) || u >= Math.max(a.u, b.u)) continue;
+
+        if (a.axis === 'x') {
+          addPoint(start, v - radius, u - radius, 'groove', 0);
+        } else {
+          addPoint(u - radius, v - radius, start, 'groove', 90);
+        }
+      }
+    }
+  }
+
   canPlaceAt(
     item: ICargoItem | null,
-    pos: IVector3, 
-    orient: OrientationOption,
-    context: IPackingContext
+    pos: IVector3,
+    dimensions: IDimensions,
+    context: IPackingContext,
+    orientationType: RollOrientation = 'vertical'
   ): boolean {
+    const failedCheck = this.checkPlacement(item, pos, dimensions, orientationType, context);
+    if (failedCheck) {
+      this.rejections.record(failedCheck);
+      return false;
+    }
+    return true;
+  }
+
+  private checkPlacement(
+    item: ICargoItem | null,
+    pos: IVector3,
+    dimensions: IDimensions,
+    orientationType: RollOrientation,
+    context: IPackingContext
+  ): PlacementCheck | null {
     const { container, placedItems } = context;
-    const dimensions = orient.dimensions;
-    const orientationType = orient.orientation;
 
-    if (!GeometryUtils.isWithinBounds(pos, dimensions, container.dimensions)) return false;
-
-    for (const other of placedItems) {
-      if (GeometryUtils.checkIntersection(
-          pos, dimensions, 
-          other.position, other.dimensions,
-          'roll', other.item.type,
-          orientationType, other.orientation || 'vertical' 
-      )) {
-        return false;
-      }
-    }
+    if (!GeometryUtils.isWithinBounds(pos, dimensions, container.dimensions)) return 'bounds';
+
+    // Rolls of different kinds collide at any distance, which a neighbour
+    // search would miss; any such roll rules the position out. Rolls of the
+    // same kind only collide when their bounding boxes overlap.
+    const collides = GeometryUtils.intersectsObstacle(pos, dimensions, container, 'roll', orientationType) ||
+      context.spatialIndex.countRollsNotOfKind(GeometryUtils.getRollKind(dimensions, orientationType)) > 0 ||
+      context.spatialIndex.some(pos, dimensions, (other) => GeometryUtils.checkIntersection(
+        pos, dimensions,
+        other.position, other.dimensions,
+        'roll', other.item.type,
+        orientationType, other.orientation || 'vertical'
+      ));
+    if (collides) return 'collision';
 
     if (pos.y > 0.01) {
-      if (!this.hasSufficientSupport(pos, dimensions, orientationType, placedItems)) return false;
+      const neighbours = context.spatialIndex.query(pos, dimensions, RollStrategy.NEIGHBOUR_MARGIN);
+      if (!this.hasSufficientSupport(pos, dimensions, orientationType, neighbours)) return 'support';
       
       if (orientationType === 'vertical') {
-        const supportingItems = this.getSupportingItems(pos, dimensions, placedItems);
+        const supportingItems = this.getSupportingItems(pos, dimensions, neighbours);
         for (const support of supportingItems) {
           if (support.item.type === 'roll' && support.orientation === 'horizontal') {
-             return false;
+             return 'support';
           }
         }
       }
+
+      if (!StackingRules.canStackOn(pos, dimensions, placedItems) ||
+          !StackingRules.canBearLoad(item, pos, dimensions, placedItems)) return 'stacking';
     }
 
-    return true;
+    if (item && context.respectDeliveryOrder && !DeliverySequence.isBlockingFree(item, pos, dimensions, placedItems)) {
+      return 'sequence';
+    }
+
+    return null;
   }
 
   private getSupportingItems(pos: IVector3, dims: IDimensions, placedItems: IPlacedItem[]): IPlacedItem[] {
@@ -297,6 +498,8 @@ export class RollStrategy implements IPackingStrategy {
     orientation: RollOrientation, 
     placedItems: IPlacedItem[]
   ): boolean {
+    if (orientation === 'horizontal' && this.restsInGroove(pos, dims, placedItems)) return true;
+
     const supportingItems = this.getSupportingItems(pos, dims, placedItems);
     if (supportingItems.length === 0) return false;
 
@@ -349,4 +552,27 @@ export class RollStrategy implements IPackingStrategy {
 
     return contactCount >= 1;
   }
+
+  /**
+   * Whether a lying roll nests in a groove: it touches a lower lying roll
+   * along the same axis on either side of its centre.
+   */
+  private restsInGroove(pos: IVector3, dims: IDimensions, placedItems: IPlacedItem[]): boolean {
+    const own = GeometryUtils.getRollCrossSection(pos, dims);
+    let touchesBefore = false;
+    let touchesAfter = false;
+
+    for (const other of placedItems) {
+      if (other.item.type !== 'roll' || other.orientation !== 'horizontal') continue;
+      if (!GeometryUtils.checkCylinderContact(pos, dims, other.position, other.dimensions)) continue;
+
+      const section = GeometryUtils.getRollCrossSection(other.position, other.dimensions);
+      if (section.v >= own.v) continue;
+
+      if (section.u < own.u - 0.001) touchesBefore = true;
+      if (section.u > own.u + 0.001) touchesAfter = true;
+    }
+
+    return touchesBefore && touchesAfter;
+  }
 }
@@ -0,0 +1,72 @@
+import type { IPackingStrategy } from './IPackingStrategy';
+import { BoxStrategy } from './BoxStrategy';
+import { RollStrategy } from './RollStrategy';
+import { PalletStrategy } from './PalletStrategy';
+import { registerCustomStrategies } from './customStrategies';
+
+export type StrategyFactory = () => IPackingStrategy;
+
+/**
+ * Packing strategies by name, plus the strategy used by default for each
+ * cargo type. Strategies keep per-run state (rejections), so the registry
+ * holds factories and every engine creates its own instances.
+ *
+ * The worker packs with `defaultStrategyRegistry`. Strategies added in
+ * `registerCustomStrategies` are registered there, so they can be selected
+ * by name through `IPackingConfig.strategies`, which survives the trip to
+ * the worker.
+ */
+export class StrategyRegistry {
+  private factories = new Map<string, StrategyFactory>();
+  private defaults = new Map<string, string>();
+
+  /**
+   * Adds a strategy under `name` and makes it the default for `cargoTypes`.
+   * Registering an existing name replaces it.
+   */
+  register(name: string, factory: StrategyFactory, cargoTypes: string[] = []): this {
+    this.factories.set(name, factory);
+    for (const cargoType of cargoTypes) {
+      this.defaults.set(cargoType, name);
+    }
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  getNames(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * Name of the strategy that packs `cargoType`: the override if one is
+   * given, otherwise the registered default.
+   */
+  resolve(cargoType: string, overrides: Partial<Record<string, string>> = {}): string {
+    const name = overrides[cargoType] ?? this.defaults.get(cargoType);
+    if (name === undefined) {
+      throw new Error(`No packing strategy registered for cargo type '${cargoType}'`);
+    }
+    if (!this.factories.has(name)) {
+      throw new Error(`Unknown packing strategy '${name}' for cargo type '${cargoType}'`);
+    }
+    return name;
+  }
+
+  create(name: string): IPackingStrategy {
+    const factory = this.factories.get(name);
+    if (!factory) {
+      throw new Error(`Unknown packing strategy '${name}'`);
+    }
+    return factory();
+  }
+}
+
+export const defaultStrategyRegistry = registerCustomStrategies(
+  new StrategyRegistry()
+    .register('box', () => new BoxStrategy(), ['box'])
+    .register('roll', () => new RollStrategy(), ['roll'])
+    .register('pallet', () => new PalletStrategy(), ['pallet'])
+);
@@ -0,0 +1,18 @@
+import type { StrategyRegistry } from './StrategyRegistry';
+
+/**
+ * Registration hook for project-specific packing strategies, called once
+ * on `defaultStrategyRegistry`. Everything that packs with the default
+ * registry sees what is registered here: the packing worker, the CLI and
+ * engines created without a registry. The store then selects a strategy
+ * by name through `IPackingConfig.strategies`, for example:
+ *
+ * ```ts
+ * registry.register('crate-first', () => new CrateFirstStrategy());
+ * ```
+ *
+ * and `setPackingConfig({ strategies: { box: 'crate-first' } })`.
+ */
+export function registerCustomStrategies(registry: StrategyRegistry): StrategyRegistry {
+  return registry;
+}
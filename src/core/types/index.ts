@@ -1,6 +1,11 @@
+import type { LoadingConstraints, UnloadedItem } from '../../types/optimization';
+import type { WeightDistribution } from '../../types/reporting';
+
 export type CargoType = 'box' | 'roll' | 'pallet';
 
 export type RollOrientation = 'vertical' | 'horizontal';
+/** Upright, or lying along the container's length (x) or width (z). */
+export type RollKind = 'vertical' | 'horizontal-x' | 'horizontal-z';
 
 export type ContainerPresetType = '20DC' | '40DC' | '40HC' | 'TRUCK';
 
@@ -13,6 +18,9 @@ export interface IContainerPreset {
   height: number;
   maxWeight: number;
   isDefault: boolean;
+  cost?: number;
+  /** Obstacles inside the container, in cm like the container itself. */
+  obstacles?: IObstacle[];
 }
 
 export interface IVector3 {
@@ -27,6 +35,14 @@ export interface IDimensions {
   height: number;
 }
 
+export type ItemAxis = keyof IDimensions;
+
+/**
+ * Which item axes may point up; see `OrientationRules` for the meaning of
+ * each rule. 'explicit' uses `ICargoItem.allowedVerticalAxes`.
+ */
+export type OrientationRule = LoadingConstraints['orientation'] | 'explicit';
+
 export interface IRollDimensions {
   diameter: number;
   length: number;
@@ -48,16 +64,56 @@ export interface ICargoItem {
   rollDimensions?: IRollDimensions;
   stackable?: boolean;
   fragile?: boolean;
+  /** Most weight (kg) that may rest on the item, counting everything stacked above it. */
+  maxLoadOnTop?: number;
+  /** Highest a stack may reach where this item is part of it, counting the item itself. */
+  maxStackTiers?: number;
+  orientationRule?: OrientationRule;
+  allowedVerticalAxes?: ItemAxis[];
+  /** Position on the delivery route; stop 1 is unloaded first. */
+  deliveryStop?: number;
   isPalletized?: boolean;
   palletDimensions?: IPalletDimensions;
+  /**
+   * Pallet load that may be double-stacked: it may stand on, and carry, other
+   * double-stackable pallet loads. `maxLoadOnTop` still limits what it carries.
+   */
+  doubleStackable?: boolean;
   color?: string;
 }
 
+/**
+ * A pallet type cartons can be built onto. `dimensions.height` is the deck
+ * height; `weight` is the empty pallet and `maxLoad` the most cargo it
+ * carries, both in kg.
+ */
+export interface IPalletType {
+  id: string;
+  name: string;
+  dimensions: IPalletDimensions;
+  weight: number;
+  maxLoad: number;
+}
+
+/**
+ * Part of the container no cargo may take up, such as a wheel arch, a
+ * reefer's machinery bulkhead or a step in the floor. Obstacles are solids:
+ * cargo may not overlap them, and they are no load surface either.
+ */
+export interface IObstacle {
+  id: string;
+  name: string;
+  /** Corner nearest the origin, in container coordinates. */
+  position: IVector3;
+  dimensions: IDimensions;
+}
+
 export interface IContainer {
   id: string;
   name: string;
   dimensions: IDimensions;
   maxWeight: number;
+  obstacles?: IObstacle[];
 }
 
 export interface IPlacedItem {
@@ -69,14 +125,121 @@ export interface IPlacedItem {
   dimensions: IDimensions;
 }
 
+export type UnplacedReason = UnloadedItem['reason'];
+
+/**
+ * Placement checks in the order strategies evaluate them. When an item is
+ * rejected, the deepest check reached by any candidate is reported.
+ */
+export type PlacementCheck = 'orientation' | 'dimensions' | 'bounds' | 'floor' | 'collision' | 'support' | 'stacking' | 'sequence' | 'payload';
+
+export interface IPlacementRejection {
+  reason: UnplacedReason;
+  check: PlacementCheck;
+}
+
+export interface IUnplacedItem {
+  itemId: string;
+  item: ICargoItem;
+  reason: UnplacedReason;
+  check?: PlacementCheck;
+}
+
+/**
+ * An item that cannot be unloaded at its stop without first moving
+ * `blockedBy`, which belongs to a later stop.
+ */
+export interface ISequenceConflict {
+  itemId: string;
+  blockedBy: string;
+  kind: 'on_top' | 'in_front';
+}
+
+/**
+ * - 'overlap': two items take up the same space
+ * - 'out_of_bounds': an item sticks out of the container
+ * - 'unsupported': an item above the floor rests on too little
+ * - 'not_on_floor': a pallet is off the floor without being double-stacked
+ * - 'obstacle': an item reaches into one of the container's obstacles
+ * - 'overweight': the load exceeds the container payload
+ */
+export type PlanViolationKind = 'overlap' | 'out_of_bounds' | 'unsupported' | 'not_on_floor' | 'obstacle' | 'overweight';
+
+export interface IPlanViolation {
+  kind: PlanViolationKind;
+  /** Items involved; empty when the violation concerns the whole load. */
+  itemIds: string[];
+  message: string;
+}
+
 export interface ILoadingResult {
   placedItems: IPlacedItem[];
-  unplacedItems: ICargoItem[];
+  unplacedItems: IUnplacedItem[];
   utilizationPercent: number;
   totalWeight: number;
   executionTime: number;
+  weightDistribution?: WeightDistribution;
+  loadingSequence?: string[];
+  sequenceConflicts?: ISequenceConflict[];
+}
+
+/**
+ * Pallets of one build. `cargo` is the loading unit handed to the packer
+ * (a palletized box with `quantity` identical pallets); `contents` is the
+ * carton layout of one of them, with positions from the front left corner
+ * of the deck top.
+ */
+export interface IBuiltPallet {
+  cargo: ICargoItem;
+  contents: IPlacedItem[];
+  cartons: Array<{ itemId: string; name: string; count: number }>;
+}
+
+export interface IPalletizationResult {
+  /** The cargo list to pack: built pallets, cartons that fit on no pallet and all other items. */
+  items: ICargoItem[];
+  pallets: IBuiltPallet[];
+  palletCount: number;
+  cartonCount: number;
+  executionTime: number;
+}
+
+export interface IContainerLoad {
+  container: IContainer;
+  result: ILoadingResult;
 }
 
+export interface IMultiLoadingResult {
+  loads: IContainerLoad[];
+  unplacedItems: IUnplacedItem[];
+  totalContainersNeeded: number;
+  totalWeight: number;
+  executionTime: number;
+}
+
+/**
+ * - 'placing': units are being placed one by one
+ * - 'patterns': a group of identical units is laid out by pattern packing
+ * - 'optimizing': a search is trying packing orders (`processed` counts
+ *   candidates tried, `total` the iteration budget)
+ * - 'finishing': balance and loading sequence are being computed
+ */
+export type PackingPhase = 'placing' | 'patterns' | 'optimizing' | 'finishing';
+
+export interface IPackingProgress {
+  phase: PackingPhase;
+  /** Units placed so far, across all containers of the run. */
+  placed: number;
+  /**
+   * Units dealt with so far, placed or not, or candidates tried when
+   * optimizing. Multi-container runs count placed units only.
+   */
+  processed: number;
+  total: number;
+}
+
+export type ProgressListener = (progress: IPackingProgress) => void;
+
 export interface ISpaceOccupancy {
   position: IVector3;
   dimensions: IDimensions;
@@ -88,8 +251,37 @@ export interface IActiveLayer {
   occupiedSpaces: ISpaceOccupancy[];
 }
 
+/**
+ * 'floor' covers the floor before stacking; 'wall' builds complete
+ * cross-sections from the front wall towards the door.
+ */
+export type FillOrder = 'floor' | 'wall';
+
+/**
+ * Neighbour lookups over the placed items of a packing run.
+ */
+export interface ISpatialIndex {
+  /**
+   * Placed items whose bounding boxes may come within `margin` of the box
+   * at `position`, in placement order. May include items further away.
+   */
+  query(position: IVector3, dimensions: IDimensions, margin?: number): IPlacedItem[];
+  /** Whether `predicate` holds for any item `query` would return. */
+  some(
+    position: IVector3,
+    dimensions: IDimensions,
+    predicate: (item: IPlacedItem) => boolean,
+    margin?: number
+  ): boolean;
+  /** Number of placed rolls of any kind but `kind`. */
+  countRollsNotOfKind(kind: RollKind): number;
+}
+
 export interface IPackingContext {
   container: IContainer;
   placedItems: IPlacedItem[];
+  spatialIndex: ISpatialIndex;
   activeLayer: IActiveLayer;
+  fillOrder?: FillOrder;
+  respectDeliveryOrder?: boolean;
 }
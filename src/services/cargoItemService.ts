@@ -1,5 +1,5 @@
 import { supabase } from '../lib/supabase';
-import type { ICargoItem } from '../core/types';
+import type { ICargoItem, ItemAxis, OrientationRule } from '../core/types';
 
 export interface CargoItemDB {
   id: string;
@@ -13,7 +13,13 @@ export interface CargoItemDB {
   pallet_dimensions: any;
   color: string | null;
   stackable: boolean;
+  max_load_on_top: number | null;
+  max_stack_tiers: number | null;
+  orientation_rule: string;
+  allowed_vertical_axes: string[] | null;
+  delivery_stop: number | null;
   is_palletized: boolean;
+  double_stackable: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -29,7 +35,13 @@ function convertToCargoItem(dbItem: CargoItemDB): ICargoItem {
     rollDimensions: dbItem.roll_dimensions,
     palletDimensions: dbItem.pallet_dimensions,
     stackable: dbItem.stackable,
+    maxLoadOnTop: dbItem.max_load_on_top ?? undefined,
+    maxStackTiers: dbItem.max_stack_tiers ?? undefined,
+    orientationRule: dbItem.orientation_rule as OrientationRule,
+    allowedVerticalAxes: (dbItem.allowed_vertical_axes as ItemAxis[] | null) ?? undefined,
+    deliveryStop: dbItem.delivery_stop ?? undefined,
     isPalletized: dbItem.is_palletized,
+    doubleStackable: dbItem.double_stackable || undefined,
     color: dbItem.color || undefined,
   };
 }
@@ -45,8 +57,14 @@ function convertFromCargoItem(item: Omit<ICargoItem, 'id'>, userId: string): Par
     roll_dimensions: item.rollDimensions || null,
     pallet_dimensions: item.palletDimensions || null,
     color: item.color || null,
-    stackable: item.stackable || false,
+    stackable: item.stackable !== false,
+    max_load_on_top: item.maxLoadOnTop ?? null,
+    max_stack_tiers: item.maxStackTiers ?? null,
+    orientation_rule: item.orientationRule ?? 'any',
+    allowed_vertical_axes: item.allowedVerticalAxes ?? null,
+    delivery_stop: item.deliveryStop ?? null,
     is_palletized: item.isPalletized || false,
+    double_stackable: item.doubleStackable || false,
   };
 }
 
@@ -102,7 +120,13 @@ export async function updateCargoItem(id: string, updates: Partial<ICargoItem>):
   if (updates.palletDimensions !== undefined) dbUpdates.pallet_dimensions = updates.palletDimensions;
   if (updates.color !== undefined) dbUpdates.color = updates.color;
   if (updates.stackable !== undefined) dbUpdates.stackable = updates.stackable;
+  if (updates.maxLoadOnTop !== undefined) dbUpdates.max_load_on_top = updates.maxLoadOnTop;
+  if (updates.maxStackTiers !== undefined) dbUpdates.max_stack_tiers = updates.maxStackTiers;
+  if (updates.orientationRule !== undefined) dbUpdates.orientation_rule = updates.orientationRule;
+  if (updates.allowedVerticalAxes !== undefined) dbUpdates.allowed_vertical_axes = updates.allowedVerticalAxes;
+  if (updates.deliveryStop !== undefined) dbUpdates.delivery_stop = updates.deliveryStop;
   if (updates.isPalletized !== undefined) dbUpdates.is_palletized = updates.isPalletized;
+  if (updates.doubleStackable !== undefined) dbUpdates.double_stackable = updates.doubleStackable;
 
   const { data, error } = await supabase
     .from('cargo_items')
@@ -1,5 +1,5 @@
 import { supabase } from '../lib/supabase';
-import type { IContainerPreset } from '../core/types';
+import type { IContainerPreset, IObstacle } from '../core/types';
 import type { Database } from '../types/database';
 
 type ContainerPresetRow = Database['public']['Tables']['container_presets']['Row'];
@@ -17,6 +17,23 @@ function mapPresetRowToContainerPreset(row: ContainerPresetRow): IContainerPrese
     height: row.height,
     maxWeight: row.max_weight,
     isDefault: row.is_default,
+    cost: row.cost ?? undefined,
+  };
+}
+
+// User containers have no preset type; they are listed like trucks.
+function mapUserContainerRow(row: UserContainerRow): IContainerPreset {
+  return {
+    id: row.id,
+    name: row.name,
+    type: 'TRUCK' as IContainerPreset['type'],
+    length: row.length,
+    width: row.width,
+    height: row.height,
+    maxWeight: row.max_weight,
+    isDefault: false,
+    cost: row.cost ?? undefined,
+    obstacles: (row.obstacles as unknown as IObstacle[] | null) ?? undefined,
   };
 }
 
@@ -47,16 +64,7 @@ export async function fetchUserContainers(userId: string): Promise<IContainerPre
 
     if (error) throw error;
 
-    return data ? data.map(row => ({
-      id: row.id,
-      name: row.name,
-      type: 'TRUCK' as IContainerPreset['type'],
-      length: row.length,
-      width: row.width,
-      height: row.height,
-      maxWeight: row.max_weight,
-      isDefault: false,
-    })) : [];
+    return data ? data.map(mapUserContainerRow) : [];
   } catch (error) {
     console.error('Error fetching user containers:', error);
     return [];
@@ -75,16 +83,7 @@ export async function createUserContainer(
 
     if (error) throw error;
 
-    return data ? {
-      id: data.id,
-      name: data.name,
-      type: 'TRUCK' as IContainerPreset['type'],
-      length: data.length,
-      width: data.width,
-      height: data.height,
-      maxWeight: data.max_weight,
-      isDefault: false,
-    } : null;
+    return data ? mapUserContainerRow(data) : null;
   } catch (error) {
     console.error('Error creating user container:', error);
     return null;
@@ -105,16 +104,7 @@ export async function updateUserContainer(
 
     if (error) throw error;
 
-    return data ? {
-      id: data.id,
-      name: data.name,
-      type: 'TRUCK' as IContainerPreset['type'],
-      length: data.length,
-      width: data.width,
-      height: data.height,
-      maxWeight: data.max_weight,
-      isDefault: false,
-    } : null;
+    return data ? mapUserContainerRow(data) : null;
   } catch (error) {
     console.error('Error updating user container:', error);
     return null;
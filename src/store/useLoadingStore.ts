@@ -1,15 +1,40 @@
 import { create } from 'zustand';
-import type { ICargoItem, IContainer, ILoadingResult, IContainerPreset } from '../core/types';
-import { WorkerHandler } from '../core/engine/WorkerHandler';
+import type { ICargoItem, IContainer, ILoadingResult, IContainerPreset, IMultiLoadingResult, IPackingProgress, IPalletizationResult, IObstacle } from '../core/types';
+import { CalculationCancelledError, WorkerHandler } from '../core/engine/WorkerHandler';
+import { WorkerPool, type IScenario, type IScenarioResult } from '../core/engine/WorkerPool';
+import type { IPackingConfig } from '../core/engine/PackingEngine';
+import type { IFleetOption } from '../core/engine/FleetRecommender';
+import type { MetaheuristicAlgorithm } from '../core/engine/MetaheuristicOptimizer';
+import type { IPalletizerConfig } from '../core/engine/Palletizer';
 import { fetchContainerPresets } from '../services/containerService';
-import { convertCmToM, DEFAULT_CONTAINERS } from '../core/constants/containers';
+import { convertCmToM, DEFAULT_CONTAINERS, obstacleCmToM, presetToContainer } from '../core/constants/containers';
+import { DEFAULT_MAX_STACK_HEIGHT, isLooseCarton, PALLET_TYPES } from '../core/constants/pallets';
 
 interface LoadingStore {
   container: IContainer;
   cargoItems: ICargoItem[];
   loadingResult: ILoadingResult | null;
+  multiResult: IMultiLoadingResult | null;
+  activeLoadIndex: number;
   isCalculating: boolean;
+  calculationProgress: IPackingProgress | null;
+  calculationError: string | null;
+  packingConfig: Partial<IPackingConfig>;
+  searchAlgorithm: SearchAlgorithm;
+  multiContainer: boolean;
+  containerSequence: string[];
+  fleetOptions: IFleetOption[] | null;
+  isRecommending: boolean;
+  scenarioResults: IScenarioResult[] | null;
+  isComparing: boolean;
+  comparisonProgress: { completed: number; total: number } | null;
+  palletizerConfig: IPalletizerConfig;
+  palletization: IPalletizationResult | null;
+  /** Cargo list before palletizing, restored by `unpalletizeCargo`. */
+  palletizedFrom: ICargoItem[] | null;
+  isPalletizing: boolean;
   workerHandler: WorkerHandler;
+  workerPool: WorkerPool;
   containerPresets: IContainerPreset[];
   selectedPresetId: string;
   isLoadingPresets: boolean;
@@ -19,77 +44,389 @@ interface LoadingStore {
   addCargoItem: (item: ICargoItem) => void;
   removeCargoItem: (id: string) => void;
   updateCargoItem: (id: string, updates: Partial<ICargoItem>) => void;
+  setPackingConfig: (updates: Partial<IPackingConfig>) => void;
+  setSearchAlgorithm: (algorithm: SearchAlgorithm) => void;
+  setMultiContainer: (enabled: boolean) => void;
+  addToContainerSequence: (presetId: string) => void;
+  removeFromContainerSequence: (index: number) => void;
+  selectContainerLoad: (index: number) => void;
   startCalculation: () => Promise<void>;
+  cancelCalculation: () => void;
+  recommendFleet: () => Promise<void>;
+  applyFleetOption: (index: number) => void;
+  compareScenarios: (scenarios: IScenario[]) => Promise<void>;
+  applyScenarioResult: (index: number) => void;
+  setPalletizerConfig: (updates: Partial<IPalletizerConfig>) => void;
+  palletizeCargo: () => Promise<void>;
+  unpalletizeCargo: () => void;
+  setPresetCost: (presetId: string, cost: number) => void;
   resetCalculation: () => void;
   loadContainerPresets: () => Promise<void>;
   selectContainerPreset: (presetId: string) => void;
   updateContainerDimensions: (length: number, width: number, height: number, maxWeight: number) => void;
+  /** Replaces the container's obstacles, given in cm like its dimensions. */
+  updateContainerObstacles: (obstacles: IObstacle[]) => void;
 }
 
+/**
+ * 'greedy' is a single packing pass; the others search for a better
+ * packing order on top of it (single container only).
+ */
+export type SearchAlgorithm = 'greedy' | MetaheuristicAlgorithm;
+
 const defaultPreset = DEFAULT_CONTAINERS['40HC'];
 
+// Editing the cargo list by hand keeps the pallets as they are; undoing
+// the palletizing would lose the edits.
+const clearedPalletization = {
+  palletization: null,
+  palletizedFrom: null,
+};
+
+const clearedResults = {
+  loadingResult: null,
+  multiResult: null,
+  activeLoadIndex: 0,
+  fleetOptions: null,
+  scenarioResults: null,
+};
+
 export const useLoadingStore = create<LoadingStore>((set, get) => ({
-  container: {
-    id: defaultPreset.id,
-    name: defaultPreset.name,
-    dimensions: {
-      length: convertCmToM(defaultPreset.length),
-      width: convertCmToM(defaultPreset.width),
-      height: convertCmToM(defaultPreset.height),
-    },
-    maxWeight: defaultPreset.maxWeight,
-  },
+  container: presetToContainer(defaultPreset),
   cargoItems: [],
-  loadingResult: null,
+  ...clearedResults,
   isCalculating: false,
+  calculationProgress: null,
+  calculationError: null,
+  packingConfig: {},
+  searchAlgorithm: 'greedy',
+  multiContainer: false,
+  containerSequence: [],
+  isRecommending: false,
+  isComparing: false,
+  comparisonProgress: null,
+  palletizerConfig: {
+    pallet: PALLET_TYPES.EUR,
+    maxStackHeight: DEFAULT_MAX_STACK_HEIGHT,
+    allowMixedItems: false,
+    doubleStackable: false,
+  },
+  ...clearedPalletization,
+  isPalletizing: false,
   workerHandler: new WorkerHandler(),
+  workerPool: new WorkerPool(),
   containerPresets: Object.values(DEFAULT_CONTAINERS),
   selectedPresetId: defaultPreset.id,
   isLoadingPresets: false,
 
   setContainer: (container) => set({ container }),
 
-  setCargoItems: (items) => set({ cargoItems: items }),
+  setCargoItems: (items) => {
+    get().cancelCalculation();
+    set({ cargoItems: items, ...clearedResults, ...clearedPalletization });
+  },
 
   addCargoItem: (item) => {
+    get().cancelCalculation();
     const { cargoItems } = get();
-    set({ cargoItems: [...cargoItems, item], loadingResult: null });
+    set({ cargoItems: [...cargoItems, item], ...clearedResults, ...clearedPalletization });
   },
 
   removeCargoItem: (id) => {
+    get().cancelCalculation();
     const { cargoItems } = get();
-    set({ cargoItems: cargoItems.filter((item) => item.id !== id), loadingResult: null });
+    set({ cargoItems: cargoItems.filter((item) => item.id !== id), ...clearedResults, ...clearedPalletization });
   },
 
   updateCargoItem: (id, updates) => {
+    get().cancelCalculation();
     const { cargoItems } = get();
     set({
       cargoItems: cargoItems.map((item) =>
         item.id === id ? { ...item, ...updates } : item
       ),
-      loadingResult: null,
+      ...clearedResults,
+      ...clearedPalletization,
     });
   },
 
+  setPackingConfig: (updates) => {
+    get().cancelCalculation();
+    const { packingConfig } = get();
+    set({ packingConfig: { ...packingConfig, ...updates }, ...clearedResults });
+  },
+
+  setSearchAlgorithm: (algorithm) => {
+    get().cancelCalculation();
+    set({ searchAlgorithm: algorithm, ...clearedResults });
+  },
+
+  setMultiContainer: (enabled) => {
+    get().cancelCalculation();
+    set({ multiContainer: enabled, ...clearedResults });
+  },
+
+  addToContainerSequence: (presetId) => {
+    get().cancelCalculation();
+    const { containerSequence } = get();
+    set({ containerSequence: [...containerSequence, presetId], ...clearedResults });
+  },
+
+  removeFromContainerSequence: (index) => {
+    get().cancelCalculation();
+    const { containerSequence } = get();
+    set({ containerSequence: containerSequence.filter((_, i) => i !== index), ...clearedResults });
+  },
+
+  selectContainerLoad: (index) => {
+    const { multiResult } = get();
+    const load = multiResult?.loads[index];
+    if (load) {
+      set({ activeLoadIndex: index, loadingResult: load.result });
+    }
+  },
+
   startCalculation: async () => {
-    const { cargoItems, container, workerHandler } = get();
+    const {
+      cargoItems,
+      container,
+      packingConfig,
+      searchAlgorithm,
+      multiContainer,
+      containerSequence,
+      containerPresets,
+      workerHandler,
+    } = get();
 
     if (cargoItems.length === 0) {
       return;
     }
 
-    set({ isCalculating: true, loadingResult: null });
+    // Starting a request cancels whatever the worker was doing.
+    set({
+      isCalculating: true,
+      isRecommending: false,
+      isPalletizing: false,
+      calculationProgress: null,
+      ...clearedResults,
+      calculationError: null,
+    });
+    const onProgress = (progress: IPackingProgress) => set({ calculationProgress: progress });
 
     try {
-      const result = await workerHandler.startPacking(cargoItems, container);
-      set({ loadingResult: result, isCalculating: false });
+      if (multiContainer) {
+        const containers = containerSequence
+          .map((presetId) => containerPresets.find((p) => p.id === presetId))
+          .filter((preset): preset is IContainerPreset => preset !== undefined)
+          .map(presetToContainer);
+
+        const result = await workerHandler.startMultiPacking(
+          cargoItems,
+          containers.length > 0 ? containers : [container],
+          packingConfig,
+          onProgress
+        );
+        set({
+          multiResult: result,
+          loadingResult: result.loads[0]?.result ?? null,
+          activeLoadIndex: 0,
+          isCalculating: false,
+          calculationProgress: null,
+        });
+      } else {
+        const result = searchAlgorithm === 'greedy'
+          ? await workerHandler.startPacking(cargoItems, container, packingConfig, onProgress)
+          : await workerHandler.startOptimization(
+            cargoItems,
+            container,
+            packingConfig,
+            { algorithm: searchAlgorithm },
+            onProgress
+          );
+        set({ loadingResult: result, isCalculating: false, calculationProgress: null });
+      }
     } catch (error) {
+      // Whoever cancelled the run has already updated the state.
+      if (error instanceof CalculationCancelledError) return;
+
       console.error('Packing calculation failed:', error);
-      set({ isCalculating: false });
+      set({
+        isCalculating: false,
+        calculationProgress: null,
+        calculationError: error instanceof Error ? error.message : 'Packing calculation failed',
+      });
+    }
+  },
+
+  cancelCalculation: () => {
+    get().workerHandler.cancel();
+    get().workerPool.cancel();
+    set({
+      isCalculating: false,
+      isRecommending: false,
+      isComparing: false,
+      isPalletizing: false,
+      calculationProgress: null,
+      comparisonProgress: null,
+    });
+  },
+
+  recommendFleet: async () => {
+    const { cargoItems, containerPresets, packingConfig, workerHandler } = get();
+
+    if (cargoItems.length === 0) {
+      return;
+    }
+
+    set({
+      isRecommending: true,
+      isCalculating: false,
+      calculationProgress: null,
+      ...clearedResults,
+      calculationError: null,
+    });
+
+    try {
+      const options = await workerHandler.startFleetRecommendation(cargoItems, containerPresets, packingConfig);
+      set({ fleetOptions: options, isRecommending: false });
+    } catch (error) {
+      if (error instanceof CalculationCancelledError) return;
+
+      console.error('Fleet recommendation failed:', error);
+      set({
+        isRecommending: false,
+        calculationError: error instanceof Error ? error.message : 'Fleet recommendation failed',
+      });
+    }
+  },
+
+  applyFleetOption: (index) => {
+    const { fleetOptions } = get();
+    const option = fleetOptions?.[index];
+    if (option) {
+      set({
+        multiResult: option.result,
+        loadingResult: option.result.loads[0]?.result ?? null,
+        activeLoadIndex: 0,
+      });
+    }
+  },
+
+  compareScenarios: async (scenarios) => {
+    const { cargoItems, workerPool } = get();
+
+    if (cargoItems.length === 0 || scenarios.length === 0) {
+      return;
+    }
+
+    set({
+      isComparing: true,
+      scenarioResults: null,
+      comparisonProgress: { completed: 0, total: scenarios.length },
+      calculationError: null,
+    });
+
+    try {
+      const results = await workerPool.evaluate(cargoItems, scenarios, (completed, total) =>
+        set({ comparisonProgress: { completed, total } })
+      );
+      set({ scenarioResults: results, isComparing: false, comparisonProgress: null });
+    } catch (error) {
+      if (error instanceof CalculationCancelledError) return;
+
+      console.error('Scenario comparison failed:', error);
+      set({
+        isComparing: false,
+        comparisonProgress: null,
+        calculationError: error instanceof Error ? error.message : 'Scenario comparison failed',
+      });
     }
   },
 
-  resetCalculation: () => set({ loadingResult: null }),
+  // Adopts the scenario's container, settings and result without packing again.
+  applyScenarioResult: (index) => {
+    const { scenarioResults, containerPresets } = get();
+    const entry = scenarioResults?.[index];
+    if (!entry?.result) return;
+
+    const { container, config } = entry.scenario;
+    const isPreset = containerPresets.some((preset) => preset.id === container.id);
+    set({
+      container,
+      selectedPresetId: isPreset ? container.id : 'custom',
+      packingConfig: config ?? {},
+      multiContainer: false,
+      loadingResult: entry.result,
+      multiResult: null,
+      activeLoadIndex: 0,
+    });
+  },
+
+  setPalletizerConfig: (updates) => {
+    const { palletizerConfig } = get();
+    set({ palletizerConfig: { ...palletizerConfig, ...updates } });
+  },
+
+  palletizeCargo: async () => {
+    const { cargoItems, palletizerConfig, packingConfig, workerHandler } = get();
+
+    if (!cargoItems.some(isLooseCarton)) {
+      return;
+    }
+
+    set({
+      isPalletizing: true,
+      isCalculating: false,
+      isRecommending: false,
+      calculationProgress: null,
+      ...clearedResults,
+      calculationError: null,
+    });
+
+    try {
+      const result = await workerHandler.startPalletization(cargoItems, palletizerConfig, packingConfig);
+      set({
+        cargoItems: result.items,
+        palletization: result,
+        palletizedFrom: get().palletizedFrom ?? cargoItems,
+        isPalletizing: false,
+      });
+    } catch (error) {
+      if (error instanceof CalculationCancelledError) {
+        set({ isPalletizing: false });
+        return;
+      }
+
+      console.error('Palletizing failed:', error);
+      set({
+        isPalletizing: false,
+        calculationError: error instanceof Error ? error.message : 'Palletizing failed',
+      });
+    }
+  },
+
+  unpalletizeCargo: () => {
+    const { palletizedFrom } = get();
+    if (!palletizedFrom) return;
+
+    get().cancelCalculation();
+    set({ cargoItems: palletizedFrom, ...clearedResults, ...clearedPalletization });
+  },
+
+  setPresetCost: (presetId, cost) => {
+    const { containerPresets } = get();
+    set({
+      containerPresets: containerPresets.map((preset) =>
+        preset.id === presetId ? { ...preset, cost } : preset
+      ),
+      fleetOptions: null,
+    });
+  },
+
+  resetCalculation: () => {
+    get().cancelCalculation();
+    set({ ...clearedResults, calculationError: null });
+  },
 
   loadContainerPresets: async () => {
     set({ isLoadingPresets: true });
@@ -110,24 +447,17 @@ export const useLoadingStore = create<LoadingStore>((set, get) => ({
     const preset = containerPresets.find((p) => p.id === presetId);
 
     if (preset) {
+      get().cancelCalculation();
       set({
         selectedPresetId: presetId,
-        container: {
-          id: preset.id,
-          name: preset.name,
-          dimensions: {
-            length: convertCmToM(preset.length),
-            width: convertCmToM(preset.width),
-            height: convertCmToM(preset.height),
-          },
-          maxWeight: preset.maxWeight,
-        },
-        loadingResult: null,
+        container: presetToContainer(preset),
+        ...clearedResults,
       });
     }
   },
 
   updateContainerDimensions: (length: number, width: number, height: number, maxWeight: number) => {
+    get().cancelCalculation();
     const { container } = get();
     set({
       container: {
@@ -141,7 +471,21 @@ export const useLoadingStore = create<LoadingStore>((set, get) => ({
         maxWeight,
       },
       selectedPresetId: 'custom',
-      loadingResult: null,
+      ...clearedResults,
+    });
+  },
+
+  updateContainerObstacles: (obstacles: IObstacle[]) => {
+    get().cancelCalculation();
+    const { container } = get();
+    set({
+      container: {
+        ...container,
+        name: 'Custom Container',
+        obstacles: obstacles.length > 0 ? obstacles.map(obstacleCmToM) : undefined,
+      },
+      selectedPresetId: 'custom',
+      ...clearedResults,
     });
   },
 }));
@@ -18,6 +18,7 @@ export interface Database {
           width: number
           height: number
           max_weight: number
+          cost: number | null
           is_default: boolean
           created_at: string
         }
@@ -29,6 +30,7 @@ export interface Database {
           width: number
           height: number
           max_weight?: number
+          cost?: number | null
           is_default?: boolean
           created_at?: string
         }
@@ -40,6 +42,7 @@ export interface Database {
           width?: number
           height?: number
           max_weight?: number
+          cost?: number | null
           is_default?: boolean
           created_at?: string
         }
@@ -53,6 +56,8 @@ export interface Database {
           width: number
           height: number
           max_weight: number
+          cost: number | null
+          obstacles: Json
           created_at: string
           updated_at: string
         }
@@ -64,6 +69,8 @@ export interface Database {
           width: number
           height: number
           max_weight?: number
+          cost?: number | null
+          obstacles?: Json
           created_at?: string
           updated_at?: string
         }
@@ -75,6 +82,8 @@ export interface Database {
           width?: number
           height?: number
           max_weight?: number
+          cost?: number | null
+          obstacles?: Json
           created_at?: string
           updated_at?: string
         }
@@ -91,7 +100,13 @@ export interface Database {
           roll_dimensions: Json | null
           color: string | null
           stackable: boolean
+          max_load_on_top: number | null
+          max_stack_tiers: number | null
+          orientation_rule: string
+          allowed_vertical_axes: string[] | null
+          delivery_stop: number | null
           is_palletized: boolean
+          double_stackable: boolean
           created_at: string
           updated_at: string
         }
@@ -106,7 +121,13 @@ export interface Database {
           roll_dimensions?: Json | null
           color?: string | null
           stackable?: boolean
+          max_load_on_top?: number | null
+          max_stack_tiers?: number | null
+          orientation_rule?: string
+          allowed_vertical_axes?: string[] | null
+          delivery_stop?: number | null
           is_palletized?: boolean
+          double_stackable?: boolean
           created_at?: string
           updated_at?: string
         }
@@ -121,7 +142,13 @@ export interface Database {
           roll_dimensions?: Json | null
           color?: string | null
           stackable?: boolean
+          max_load_on_top?: number | null
+          max_stack_tiers?: number | null
+          orientation_rule?: string
+          allowed_vertical_axes?: string[] | null
+          delivery_stop?: number | null
           is_palletized?: boolean
+          double_stackable?: boolean
           created_at?: string
           updated_at?: string
         }
@@ -93,3 +93,35 @@ export function validatePalletDimensions(
 
   return { isValid: true };
 }
+
+export function validateStackingLimits(
+  maxLoadOnTop: number | undefined,
+  maxStackTiers: number | undefined
+): ValidationResult {
+  if (maxLoadOnTop !== undefined && (isNaN(maxLoadOnTop) || maxLoadOnTop < 0)) {
+    return {
+      isValid: false,
+      error: 'Max load on top must be zero or more',
+    };
+  }
+
+  if (maxStackTiers !== undefined && (!Number.isInteger(maxStackTiers) || maxStackTiers < 1)) {
+    return {
+      isValid: false,
+      error: 'Max stack tiers must be a whole number of at least 1',
+    };
+  }
+
+  return { isValid: true };
+}
+
+export function validateDeliveryStop(stop: number): ValidationResult {
+  if (!Number.isInteger(stop) || stop < 1) {
+    return {
+      isValid: false,
+      error: 'Delivery stop must be a whole number of at least 1',
+    };
+  }
+
+  return { isValid: true };
+}
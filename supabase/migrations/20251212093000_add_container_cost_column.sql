@@ -0,0 +1,34 @@
+/*
+  # Add freight cost to container presets and user containers
+
+  1. Changes
+    - Add `cost` column (numeric, nullable) to `container_presets`
+    - Add `cost` column (numeric, nullable) to `user_containers`
+    - Seed the default presets with a typical freight rate per container
+
+  2. Notes
+    - Cost is a rate per container used to rank fleet recommendations
+    - NULL means no rate is known; such containers are ranked as free
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'container_presets' AND column_name = 'cost'
+  ) THEN
+    ALTER TABLE container_presets ADD COLUMN cost numeric CHECK (cost IS NULL OR cost >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_containers' AND column_name = 'cost'
+  ) THEN
+    ALTER TABLE user_containers ADD COLUMN cost numeric CHECK (cost IS NULL OR cost >= 0);
+  END IF;
+END $$;
+
+UPDATE container_presets SET cost = 1800 WHERE type = '20DC' AND cost IS NULL;
+UPDATE container_presets SET cost = 2600 WHERE type = '40DC' AND cost IS NULL;
+UPDATE container_presets SET cost = 2800 WHERE type = '40HC' AND cost IS NULL;
+UPDATE container_presets SET cost = 1500 WHERE type = 'TRUCK' AND cost IS NULL;
@@ -0,0 +1,37 @@
+/*
+  # Add stacking limits to cargo_items
+
+  1. Changes
+    - Add `max_load_on_top` column (numeric, nullable) to cargo_items table
+      - Most weight in kg that may rest on the item, including everything stacked above it
+    - Add `max_stack_tiers` column (integer, nullable) to cargo_items table
+      - Highest a stack may reach where the item is part of it, counting the item itself
+    - Change the default of `stackable` to true
+
+  2. Notes
+    - NULL means no limit
+    - `stackable` was never editable and was always saved as false, even though
+      the engine ignored it. Now that false means "nothing may rest on this item",
+      existing rows are reset to true so saved cargo keeps stacking as before
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'cargo_items' AND column_name = 'max_load_on_top'
+  ) THEN
+    ALTER TABLE cargo_items ADD COLUMN max_load_on_top numeric CHECK (max_load_on_top IS NULL OR max_load_on_top >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'cargo_items' AND column_name = 'max_stack_tiers'
+  ) THEN
+    ALTER TABLE cargo_items ADD COLUMN max_stack_tiers integer CHECK (max_stack_tiers IS NULL OR max_stack_tiers >= 1);
+  END IF;
+END $$;
+
+ALTER TABLE cargo_items ALTER COLUMN stackable SET DEFAULT true;
+
+UPDATE cargo_items SET stackable = true WHERE stackable = false;
@@ -0,0 +1,34 @@
+/*
+  # Add orientation rules to cargo_items
+
+  1. Changes
+    - Add `orientation_rule` column (text, default 'any') to cargo_items table
+      - 'any': the item may be loaded on any side
+      - 'upright': only the item's own height may point up (this side up)
+      - 'flat': the longest side must stay horizontal
+      - 'explicit': only the axes listed in `allowed_vertical_axes` may point up
+    - Add `allowed_vertical_axes` column (text[], nullable) to cargo_items table
+      - Subset of 'length', 'width', 'height'; only used with 'explicit'
+
+  2. Notes
+    - Existing rows default to 'any', which matches how they were loaded before
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'cargo_items' AND column_name = 'orientation_rule'
+  ) THEN
+    ALTER TABLE cargo_items ADD COLUMN orientation_rule text NOT NULL DEFAULT 'any'
+      CHECK (orientation_rule IN ('any', 'upright', 'flat', 'explicit'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'cargo_items' AND column_name = 'allowed_vertical_axes'
+  ) THEN
+    ALTER TABLE cargo_items ADD COLUMN allowed_vertical_axes text[]
+      CHECK (allowed_vertical_axes IS NULL OR allowed_vertical_axes <@ ARRAY['length', 'width', 'height']::text[]);
+  END IF;
+END $$;
@@ -0,0 +1,22 @@
+/*
+  # Add delivery stop to cargo_items
+
+  1. Changes
+    - Add `delivery_stop` column (integer, nullable) to cargo_items table
+      - Position on the delivery route; stop 1 is unloaded first
+      - NULL means the item stays on board until the end of the route
+
+  2. Notes
+    - Existing rows stay NULL, so single-drop loads are unchanged
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'cargo_items' AND column_name = 'delivery_stop'
+  ) THEN
+    ALTER TABLE cargo_items ADD COLUMN delivery_stop integer
+      CHECK (delivery_stop IS NULL OR delivery_stop >= 1);
+  END IF;
+END $$;
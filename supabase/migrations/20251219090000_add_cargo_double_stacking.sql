@@ -0,0 +1,21 @@
+/*
+  # Add double-stacking to cargo_items
+
+  1. Changes
+    - Add `double_stackable` column (boolean, default false) to cargo_items table
+      - Pallet loads that may stand on, and carry, other double-stackable pallet loads
+
+  2. Notes
+    - Existing rows keep standing on the floor only
+    - `max_load_on_top` still limits the weight a double-stacked pallet carries
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'cargo_items' AND column_name = 'double_stackable'
+  ) THEN
+    ALTER TABLE cargo_items ADD COLUMN double_stackable boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
@@ -0,0 +1,24 @@
+/*
+  # Add obstacles to user_containers
+
+  1. Changes
+    - Add `obstacles` column (jsonb, default empty array) to user_containers table
+      - Boxes inside the container no cargo may take up, such as wheel arches,
+        a reefer's machinery bulkhead or a step in the floor
+      - Each entry holds `id`, `name`, `position` { x, y, z } and
+        `dimensions` { length, width, height }, in cm like the container
+
+  2. Notes
+    - Existing containers get no obstacles, so their loads are unchanged
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_containers' AND column_name = 'obstacles'
+  ) THEN
+    ALTER TABLE user_containers ADD COLUMN obstacles jsonb NOT NULL DEFAULT '[]'::jsonb
+      CHECK (jsonb_typeof(obstacles) = 'array');
+  END IF;
+END $$;
@@ -0,0 +1,18 @@
+import { defineConfig } from 'vite';
+
+// Builds the command-line tools in src/cli into Node scripts.
+export default defineConfig({
+  build: {
+    ssr: true,
+    outDir: 'dist-cli',
+    target: 'node18',
+    emptyOutDir: true,
+    rollupOptions: {
+      input: {
+        pack: 'src/cli/pack.ts',
+        validate: 'src/cli/validate.ts',
+        benchmark: 'src/cli/benchmark.ts',
+      },
+    },
+  },
+});